@@ -0,0 +1,107 @@
+/**
+ * BBH HMS – AccessWindowController
+ * Endpoints: GET/POST /admin/access-windows, DELETE /admin/access-windows/:id,
+ *            GET/POST /admin/access-windows/overrides,
+ *            DELETE /admin/access-windows/overrides/:id
+ * Role windows belong to the current property. Personal windows and
+ * overrides can only target the current property's staff, except for OWNERs.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import type { Property, User } from '@prisma/client';
+import {
+  AccessWindowService,
+  CreateAccessWindowDto,
+  GrantOverrideDto,
+} from './access-window.service';
+import { AuthGuard } from './auth.guard';
+import { PermissionsGuard, RequirePermission } from './permissions.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { CurrentProperty } from './decorators/current-property.decorator';
+import { PropertyService } from '../properties/property.service';
+
+@Controller('admin/access-windows')
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermission('access:manage')
+export class AccessWindowController {
+  constructor(
+    private readonly accessWindows: AccessWindowService,
+    private readonly properties: PropertyService,
+  ) {}
+
+  @Get()
+  async list(@CurrentUser() user: User, @CurrentProperty() property: Property) {
+    return this.accessWindows.list(property.id, this.properties.staffScope(user, property));
+  }
+
+  /**
+   * Role windows apply on the current property only. Times are HH:MM in the
+   * property's timezone; end < start spans midnight.
+   */
+  @Post()
+  async create(
+    @Body() dto: CreateAccessWindowDto,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    if (dto.userId) await this.properties.assertInStaffScope(user, property, dto.userId);
+    return this.accessWindows.create(dto, property.id, user.id, req.ip);
+  }
+
+  @Get('overrides')
+  async listOverrides(@CurrentUser() user: User, @CurrentProperty() property: Property) {
+    return this.accessWindows.listActiveOverrides(this.properties.staffScope(user, property));
+  }
+
+  /** Temporary out-of-hours access, at most 24 hours. */
+  @Post('overrides')
+  async grantOverride(
+    @Body() dto: GrantOverrideDto,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.properties.assertInStaffScope(user, property, dto.userId);
+    return this.accessWindows.grantOverride(dto, user.id, req.ip);
+  }
+
+  @Delete('overrides/:id')
+  @HttpCode(HttpStatus.OK)
+  async revokeOverride(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    const staff = this.properties.staffScope(user, property);
+    await this.accessWindows.revokeOverride(id, staff, user.id, req.ip);
+    return { message: 'Override revoked' };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    const staff = this.properties.staffScope(user, property);
+    await this.accessWindows.remove(id, property.id, staff, user.id, req.ip);
+    return { message: 'Access window deleted' };
+  }
+}
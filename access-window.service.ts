@@ -0,0 +1,344 @@
+/**
+ * BBH HMS – AccessWindowService
+ * Shift-aware access: staff may only log in and use their session inside
+ * the windows configured for their role or for them personally, evaluated
+ * in the timezone (GlobalConfig.timezone) of the property being accessed.
+ * Managers can grant temporary overrides.
+ *
+ * Role windows belong to one property and only apply there. Personal
+ * windows and overrides follow the user to every property; callers pass the
+ * staff the actor may manage (PropertyService.staffScope) to limit them.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Role } from '@prisma/client';
+import type { AccessWindow, Prisma, Property, User } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateAccessWindowDto {
+  @IsOptional() @IsEnum(Role) role?: Role;
+  @IsOptional() @IsUUID() userId?: string;
+  @IsArray() @ArrayMinSize(1) @IsInt({ each: true }) @Min(0, { each: true }) @Max(6, { each: true })
+  days!: number[];
+  @Matches(TIME_PATTERN, { message: 'start must be HH:MM' }) start!: string;
+  @Matches(TIME_PATTERN, { message: 'end must be HH:MM' }) end!: string;
+}
+
+export class GrantOverrideDto {
+  @IsUUID() userId!: string;
+  @Type(() => Date) @IsDate() endsAt!: Date;
+  @IsString() @MinLength(3) @MaxLength(500) reason!: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Windows and timezones are read on every request; cache them briefly. */
+const CACHE_TTL_MS = 30_000;
+
+const MAX_OVERRIDE_MS = 24 * 60 * 60 * 1000;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class AccessWindowService {
+  private cache: {
+    windows: AccessWindow[];
+    timezones: Map<string, string>;   // property id → timezone
+    defaultPropertyId: string | null;
+    defaultTimezone: string;
+    loadedAt: number;
+  } | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+  ) {}
+
+  /**
+   * Whether the user may be signed in right now, on the given property's
+   * clock (the default property's without one).
+   * OWNER, and anyone without applicable windows, is always allowed.
+   */
+  async isAllowed(
+    user: Pick<User, 'id' | 'role'>,
+    property?: Pick<Property, 'id'>,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    if (user.role === Role.OWNER) return true;
+
+    const { windows, timezones, defaultPropertyId, defaultTimezone } = await this.load();
+    const propertyId = property?.id ?? defaultPropertyId;
+    const timezone = (property && timezones.get(property.id)) ?? defaultTimezone;
+    const personal = windows.filter((w) => w.user_id === user.id);
+    const applicable = personal.length > 0
+      ? personal
+      : windows.filter(
+          (w) => !w.user_id && w.role === user.role && w.property_id === propertyId,
+        );
+
+    if (applicable.length === 0) return true;
+
+    const { day, minute } = this.localTime(now, timezone);
+    if (applicable.some((w) => this.contains(w, day, minute))) return true;
+
+    const override = await this.prisma.accessOverride.findFirst({
+      where: { user_id: user.id, starts_at: { lte: now }, ends_at: { gt: now } },
+    });
+    return !!override;
+  }
+
+  /** The property's role windows and the personal windows of the given staff. */
+  async list(propertyId: string, staff: Prisma.UserWhereInput) {
+    const windows = await this.prisma.accessWindow.findMany({
+      where: this.visibleWindows(propertyId, staff),
+      orderBy: [{ role: 'asc' }, { user_id: 'asc' }, { start_minute: 'asc' }],
+    });
+    return windows.map((w) => this.toView(w));
+  }
+
+  /** Role windows are created for propertyId; check a userId's scope beforehand. */
+  async create(
+    dto: CreateAccessWindowDto,
+    propertyId: string,
+    performedById: string,
+    ipAddress?: string,
+  ) {
+    if (!!dto.role === !!dto.userId) {
+      throw new BadRequestException('Provide either role or userId');
+    }
+    if (dto.role === Role.OWNER) {
+      throw new BadRequestException('OWNER access cannot be restricted');
+    }
+    if (dto.start === dto.end) {
+      throw new BadRequestException('start and end must differ');
+    }
+
+    const window = await this.prisma.accessWindow.create({
+      data: {
+        role: dto.role,
+        user_id: dto.userId,
+        property_id: dto.role ? propertyId : null,
+        days: [...new Set(dto.days)].sort((a, b) => a - b),
+        start_minute: this.toMinutes(dto.start),
+        end_minute: this.toMinutes(dto.end),
+        created_by_id: performedById,
+      },
+    });
+    this.cache = null;
+
+    await this.audit.log({
+      action: 'ACCESS_WINDOW_CREATED',
+      resource: 'AccessWindow',
+      resourceId: window.id,
+      newValue: this.toView(window),
+      performedById,
+      ipAddress,
+    });
+
+    return this.toView(window);
+  }
+
+  async remove(
+    id: string,
+    propertyId: string,
+    staff: Prisma.UserWhereInput,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<void> {
+    const window = await this.prisma.accessWindow.findFirst({
+      where: { id, ...this.visibleWindows(propertyId, staff) },
+    });
+    if (!window) throw new NotFoundException('Access window not found');
+
+    await this.prisma.accessWindow.delete({ where: { id } });
+    this.cache = null;
+
+    await this.audit.log({
+      action: 'ACCESS_WINDOW_DELETED',
+      resource: 'AccessWindow',
+      resourceId: id,
+      oldValue: this.toView(window),
+      performedById,
+      ipAddress,
+    });
+  }
+
+  async listActiveOverrides(staff: Prisma.UserWhereInput) {
+    return this.prisma.accessOverride.findMany({
+      where: { ends_at: { gt: new Date() }, user: staff },
+      include: { user: { select: { first_name: true, last_name: true, email: true } } },
+      orderBy: { ends_at: 'asc' },
+    });
+  }
+
+  /**
+   * Grant out-of-hours access from now until endsAt (at most 24 hours).
+   * Check the user's scope beforehand.
+   */
+  async grantOverride(dto: GrantOverrideDto, performedById: string, ipAddress?: string) {
+    const now = new Date();
+    if (dto.endsAt <= now || dto.endsAt.getTime() - now.getTime() > MAX_OVERRIDE_MS) {
+      throw new BadRequestException('endsAt must be within the next 24 hours');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: dto.userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    const override = await this.prisma.accessOverride.create({
+      data: {
+        user_id: dto.userId,
+        starts_at: now,
+        ends_at: dto.endsAt,
+        reason: dto.reason,
+        granted_by_id: performedById,
+      },
+    });
+
+    await this.audit.log({
+      action: 'ACCESS_OVERRIDE_GRANTED',
+      resource: 'User',
+      resourceId: dto.userId,
+      newValue: { overrideId: override.id, endsAt: dto.endsAt, reason: dto.reason },
+      performedById,
+      ipAddress,
+    });
+
+    return override;
+  }
+
+  /** End an override early. */
+  async revokeOverride(
+    id: string,
+    staff: Prisma.UserWhereInput,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<void> {
+    const override = await this.prisma.accessOverride.findFirst({ where: { id, user: staff } });
+    if (!override) throw new NotFoundException('Override not found');
+
+    await this.prisma.accessOverride.update({
+      where: { id },
+      data: { ends_at: new Date() },
+    });
+
+    await this.audit.log({
+      action: 'ACCESS_OVERRIDE_REVOKED',
+      resource: 'User',
+      resourceId: override.user_id,
+      oldValue: { overrideId: id, endsAt: override.ends_at },
+      performedById,
+      ipAddress,
+    });
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private visibleWindows(
+    propertyId: string,
+    staff: Prisma.UserWhereInput,
+  ): Prisma.AccessWindowWhereInput {
+    return {
+      OR: [
+        { user_id: null, property_id: propertyId },
+        { user: { is: staff } },
+      ],
+    };
+  }
+
+  private async load() {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) return this.cache;
+
+    const [windows, configs] = await Promise.all([
+      this.prisma.accessWindow.findMany(),
+      this.prisma.globalConfig.findMany({
+        select: { property_id: true, timezone: true, property: { select: { is_default: true } } },
+      }),
+    ]);
+    const defaultConfig = configs.find((c) => c.property?.is_default);
+
+    this.cache = {
+      windows,
+      timezones: new Map(
+        configs.flatMap((c) => (c.property_id ? [[c.property_id, c.timezone] as const] : [])),
+      ),
+      defaultPropertyId: defaultConfig?.property_id ?? null,
+      defaultTimezone: defaultConfig?.timezone ?? 'UTC',
+      loadedAt: Date.now(),
+    };
+    return this.cache;
+  }
+
+  /** Weekday (0 = Sunday) and minute of day in the hotel's timezone. */
+  private localTime(now: Date, timezone: string): { day: number; minute: number } {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(now);
+    } catch {
+      return this.localTime(now, 'UTC'); // Invalid timezone in GlobalConfig
+    }
+
+    const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+    return { day, minute: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10) };
+  }
+
+  /** Overnight windows (end < start) belong to the day they start on. */
+  private contains(window: AccessWindow, day: number, minute: number): boolean {
+    const { days, start_minute: start, end_minute: end } = window;
+    if (start < end) {
+      return days.includes(day) && minute >= start && minute < end;
+    }
+    const previousDay = (day + 6) % 7;
+    return (days.includes(day) && minute >= start) || (days.includes(previousDay) && minute < end);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private toView(window: AccessWindow) {
+    const format = (m: number) =>
+      `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+    return {
+      id: window.id,
+      role: window.role,
+      propertyId: window.property_id,
+      userId: window.user_id,
+      days: window.days,
+      start: format(window.start_minute),
+      end: format(window.end_minute),
+    };
+  }
+}
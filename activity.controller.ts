@@ -0,0 +1,104 @@
+/**
+ * BBH HMS – Live Activity Controller
+ * GET /api/admin/activity/stream – Server-Sent Events for the dashboard.
+ *
+ * Requires audit:read. Each viewer receives the events their resolved
+ * permissions allow, for the current property only; OWNERs also receive
+ * other properties' and group-wide events. Session and permissions are
+ * re-checked on every heartbeat, so a revoked or deactivated user, or one
+ * who loses audit:read, is disconnected and permission changes apply to the
+ * open stream.
+ */
+
+import {
+  Controller,
+  MessageEvent,
+  Req,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import type { Property, User } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+import { from, interval, merge, Observable } from 'rxjs';
+import { filter, map, share, switchMap, takeUntil, tap } from 'rxjs/operators';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import { AuthService, SESSION_KEY_PREFIX } from '../../../libs/auth/auth.service';
+import { PermissionsService } from '../../../libs/auth/permissions.service';
+import type { Permission } from '../../../libs/auth/permissions';
+import { ActivityService } from '../../../libs/audit/activity.service';
+import { PropertyService } from '../../../libs/properties/property.service';
+import { RedisService } from '../../../libs/redis/redis.service';
+
+const HEARTBEAT_MS = 25_000; // Below common proxy idle timeouts
+
+const STREAM_PERMISSION: Permission = 'audit:read';
+
+@Controller('admin/activity')
+@UseGuards(AuthGuard, PermissionsGuard)
+export class ActivityController {
+  constructor(
+    private readonly activity: ActivityService,
+    private readonly permissions: PermissionsService,
+    private readonly auth: AuthService,
+    private readonly properties: PropertyService,
+    private readonly redis: RedisService,
+  ) {}
+
+  @Sse('stream')
+  @RequirePermission(STREAM_PERMISSION)
+  stream(
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ): Observable<MessageEvent> {
+    return from(this.permissions.resolve(user)).pipe(
+      switchMap((granted) => {
+        let allowed = new Set<string>(granted);
+        const groupWide = user.role === Role.OWNER;
+
+        const events = this.activity.stream().pipe(
+          filter((event) => groupWide || event.propertyId === property.id),
+          filter((event) => allowed.has(event.permission)),
+          map((event): MessageEvent => ({ type: event.kind, data: event })),
+        );
+
+        // null once the session is gone or the viewer lost access
+        const checks = interval(HEARTBEAT_MS).pipe(
+          switchMap(() => from(this.currentPermissions(req, property))),
+          tap((current) => {
+            if (current) allowed = new Set<string>(current);
+          }),
+          share(),
+        );
+        const heartbeat = checks.pipe(
+          filter((current) => current !== null),
+          map((): MessageEvent => ({ type: 'ping', data: '' })),
+        );
+
+        return merge(events, heartbeat).pipe(
+          takeUntil(checks.pipe(filter((current) => current === null))),
+        );
+      }),
+    );
+  }
+
+  /** The viewer's permissions now, or null if they may no longer watch. */
+  private async currentPermissions(
+    req: FastifyRequest,
+    property: Property,
+  ): Promise<Permission[] | null> {
+    const exists = await this.redis.client.exists(SESSION_KEY_PREFIX + req.session.sessionId);
+    const sessionUser = exists === 1 ? await this.auth.getSessionUser(req) : null;
+    if (!sessionUser) return null;
+
+    const role = await this.properties.roleFor(sessionUser, property);
+    if (!role) return null;
+
+    const granted = await this.permissions.resolve({ id: sessionUser.id, role });
+    return granted.includes(STREAM_PERMISSION) ? granted : null;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * BBH HMS – Activity Module
+ * Global so AuditService and system services can publish without importing it.
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { ActivityService } from './activity.service';
+
+@Global()
+@Module({
+  providers: [ActivityService],
+  exports: [ActivityService],
+})
+export class ActivityModule {}
@@ -0,0 +1,141 @@
+/**
+ * BBH HMS – ActivityService
+ * Live activity feed for the admin dashboard.
+ *
+ * Events are published to a Redis pub/sub channel and every API instance
+ * relays what it receives to its own SSE subscribers, so a viewer sees
+ * activity regardless of which instance handled the original request.
+ */
+
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { RedisService, RedisClient } from '../redis/redis.service';
+import { auditContext } from './audit-context';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SystemEventType =
+  | 'deploy_started'
+  | 'deploy_finished'
+  | 'deploy_failed'
+  | 'module_toggled';
+
+export interface ActivityEvent {
+  kind: 'audit' | 'system';
+  type: string;             // Audit action or SystemEventType
+  timestamp: string;
+  permission: string;       // Permission a viewer needs to receive it
+  propertyId: string | null; // null for group-wide events
+  data: Record<string, unknown>;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const ACTIVITY_CHANNEL = 'activity';
+
+/** Audit actions that only viewers with the matching permission may see. */
+const AUDIT_EVENT_PERMISSIONS: Array<[string, string]> = [
+  ['API_KEY_', 'api_keys:manage'],
+  ['ROLE_PERMISSIONS_', 'permissions:manage'],
+  ['USER_PERMISSIONS_', 'permissions:manage'],
+  ['AUDIT_', 'audit:export'],
+];
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class ActivityService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ActivityService.name);
+  private readonly events = new Subject<ActivityEvent>();
+  private subscriber: RedisClient | null = null;
+
+  constructor(private readonly redis: RedisService) {}
+
+  /** A subscribing connection is dedicated to pub/sub, so use a duplicate. */
+  async onModuleInit(): Promise<void> {
+    this.subscriber = this.redis.client.duplicate();
+    this.subscriber.on('error', (err: Error) =>
+      this.logger.error(`Activity subscriber error: ${err.message}`),
+    );
+
+    await this.subscriber.connect();
+    await this.subscriber.subscribe(ACTIVITY_CHANNEL, (message) => {
+      try {
+        this.events.next(JSON.parse(message));
+      } catch {
+        this.logger.warn('Dropped malformed activity message');
+      }
+    });
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.events.complete();
+    if (this.subscriber?.isOpen) await this.subscriber.quit();
+  }
+
+  /** Every event received on this instance, from any instance. */
+  stream(): Observable<ActivityEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Fire-and-forget: the live feed must never slow down or fail a request.
+   * propertyId defaults to the property of the current request.
+   */
+  publish(
+    event: Omit<ActivityEvent, 'timestamp' | 'propertyId'> & {
+      timestamp?: string;
+      propertyId?: string | null;
+    },
+  ): void {
+    const message = JSON.stringify({
+      ...event,
+      timestamp: event.timestamp ?? new Date().toISOString(),
+      propertyId:
+        event.propertyId !== undefined
+          ? event.propertyId
+          : auditContext.getStore()?.propertyId ?? null,
+    });
+
+    this.redis.client.publish(ACTIVITY_CHANNEL, message).catch((err: Error) =>
+      this.logger.warn(`Failed to publish activity: ${err.message}`),
+    );
+  }
+
+  publishAudit(entry: {
+    id: string;
+    action: string;
+    resource: string;
+    resource_id: string | null;
+    performed_by_id: string | null;
+    api_key_id: string | null;
+    property_id?: string | null;
+    timestamp: Date;
+  }): void {
+    this.publish({
+      kind: 'audit',
+      type: entry.action,
+      timestamp: entry.timestamp.toISOString(),
+      propertyId: entry.property_id ?? null,
+      permission:
+        AUDIT_EVENT_PERMISSIONS.find(([prefix]) => entry.action.startsWith(prefix))?.[1] ??
+        'audit:read',
+      data: {
+        id: entry.id,
+        resource: entry.resource,
+        resourceId: entry.resource_id,
+        performedById: entry.performed_by_id,
+        apiKeyId: entry.api_key_id,
+      },
+    });
+  }
+
+  publishSystem(type: SystemEventType, permission: string, data: Record<string, unknown> = {}): void {
+    this.publish({ kind: 'system', type, permission, data });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * BBH HMS – ApiKeyController
+ * Endpoints: GET /admin/api-keys, POST /admin/api-keys, DELETE /admin/api-keys/:id
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import type { User } from '@prisma/client';
+import { ApiKeyService, CreateApiKeyDto } from './api-key.service';
+import { AuthGuard } from './auth.guard';
+import { PermissionsGuard, RequirePermission } from './permissions.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@Controller('admin/api-keys')
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermission('api_keys:manage')
+export class ApiKeyController {
+  constructor(private readonly apiKeys: ApiKeyService) {}
+
+  /** Includes last_used_at / last_used_ip; never the key itself. */
+  @Get()
+  async list() {
+    return this.apiKeys.list();
+  }
+
+  /** The `key` field in the response is shown once and cannot be retrieved later. */
+  @Post()
+  async create(
+    @Body() dto: CreateApiKeyDto,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.apiKeys.create(dto, user, req.ip);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.apiKeys.revoke(id, user.id, req.ip);
+    return { message: 'API key revoked' };
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * BBH HMS – ApiKeyService
+ * Owner-managed keys for integrations (channel managers, door-lock bridges,
+ * reporting scripts) sent as `Authorization: Bearer bbh_<prefix>_<secret>`.
+ *
+ * A key acts on behalf of its creator, limited to the permissions it was
+ * given. Only the SHA-256 hash is stored; the key is shown once.
+ */
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ModuleName } from '@prisma/client';
+import type { ApiKey, User } from '@prisma/client';
+import { BlockList, isIP } from 'net';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { PermissionsService } from './permissions.service';
+import { isPermission } from './permissions';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+const CIDR_PATTERN = /^[0-9a-fA-F:.]+(\/\d{1,3})?$/;
+
+export class CreateApiKeyDto {
+  @IsString() @MinLength(1) @MaxLength(100) name!: string;
+  @IsArray() @IsString({ each: true }) permissions!: string[];
+  @IsOptional() @IsArray() @IsEnum(ModuleName, { each: true }) modules?: ModuleName[];
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @Matches(CIDR_PATTERN, { each: true, message: 'allowedIps must be IPs or CIDR ranges' })
+  allowedIps?: string[];
+  @IsOptional() @Type(() => Date) @IsDate() expiresAt?: Date;
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type AuthenticatedApiKey = ApiKey & { created_by: User };
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const KEY_PATTERN = /^bbh_([a-z0-9]{8})_([a-f0-9]{64})$/;
+
+/** Avoid a database write on every request from a busy integration. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly permissions: PermissionsService,
+  ) {}
+
+  /**
+   * Create a key. Its permissions must be a subset of the creator's.
+   * Returns the plaintext key once.
+   */
+  async create(dto: CreateApiKeyDto, creator: User, ipAddress?: string) {
+    const unknown = dto.permissions.filter((p) => !isPermission(p));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+
+    const held = new Set<string>(await this.permissions.resolve(creator));
+    const notHeld = dto.permissions.filter((p) => !held.has(p));
+    if (notHeld.length > 0) {
+      throw new ForbiddenException(`You do not hold: ${notHeld.join(', ')}`);
+    }
+
+    for (const entry of dto.allowedIps ?? []) this.toSubnet(entry);
+
+    if (dto.expiresAt && dto.expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const prefix = randomBytes(4).toString('hex');
+    const secret = randomBytes(32).toString('hex');
+    const key = `bbh_${prefix}_${secret}`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: dto.name,
+        prefix,
+        key_hash: this.hashKey(key),
+        permissions: [...new Set(dto.permissions)],
+        modules: dto.modules ?? [],
+        allowed_ips: dto.allowedIps ?? [],
+        expires_at: dto.expiresAt,
+        created_by_id: creator.id,
+      },
+    });
+
+    await this.audit.log({
+      action: 'API_KEY_CREATED',
+      resource: 'ApiKey',
+      resourceId: apiKey.id,
+      newValue: {
+        name: apiKey.name,
+        prefix,
+        permissions: apiKey.permissions,
+        modules: apiKey.modules,
+        allowedIps: apiKey.allowed_ips,
+        expiresAt: apiKey.expires_at,
+      },
+      performedById: creator.id,
+      ipAddress,
+    });
+
+    return { ...this.toView(apiKey), key };
+  }
+
+  async list() {
+    const keys = await this.prisma.apiKey.findMany({ orderBy: { created_at: 'desc' } });
+    return keys.map((k) => this.toView(k));
+  }
+
+  async revoke(id: string, performedById: string, ipAddress?: string): Promise<void> {
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!apiKey) throw new NotFoundException('API key not found');
+    if (apiKey.revoked_at) return;
+
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: { revoked_at: new Date() },
+    });
+
+    await this.audit.log({
+      action: 'API_KEY_REVOKED',
+      resource: 'ApiKey',
+      resourceId: id,
+      oldValue: { name: apiKey.name, prefix: apiKey.prefix },
+      performedById,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Resolve a bearer token to an active key whose creator is still active.
+   * Returns null for anything invalid; callers respond 401.
+   */
+  async authenticate(token: string, ip: string): Promise<AuthenticatedApiKey | null> {
+    const match = KEY_PATTERN.exec(token);
+    if (!match) return null;
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { prefix: match[1] },
+      include: { created_by: true },
+    });
+    if (!apiKey) return null;
+
+    const expected = Buffer.from(apiKey.key_hash, 'hex');
+    const actual = Buffer.from(this.hashKey(token), 'hex');
+    if (!timingSafeEqual(expected, actual)) return null;
+
+    if (apiKey.revoked_at) return null;
+    if (apiKey.expires_at && apiKey.expires_at <= new Date()) return null;
+    if (!apiKey.created_by.is_active) return null;
+
+    if (apiKey.allowed_ips.length > 0 && !this.ipAllowed(ip, apiKey.allowed_ips)) {
+      this.logger.warn(`API key ${apiKey.prefix} used from disallowed IP ${ip}`);
+      return null;
+    }
+
+    const lastUsed = apiKey.last_used_at?.getTime() ?? 0;
+    if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { last_used_at: new Date(), last_used_ip: ip },
+      });
+    }
+
+    return apiKey;
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private ipAllowed(ip: string, allowed: string[]): boolean {
+    const family = isIP(ip) === 6 ? 'ipv6' : 'ipv4';
+    const list = new BlockList();
+    for (const entry of allowed) {
+      const { address, prefix, type } = this.toSubnet(entry);
+      list.addSubnet(address, prefix, type);
+    }
+    return list.check(ip, family);
+  }
+
+  private toSubnet(entry: string): { address: string; prefix: number; type: 'ipv4' | 'ipv6' } {
+    const [address, bits] = entry.split('/');
+    const version = isIP(address);
+    if (version === 0) throw new BadRequestException(`Invalid IP address: ${entry}`);
+
+    const max = version === 4 ? 32 : 128;
+    const prefix = bits === undefined ? max : parseInt(bits, 10);
+    if (prefix < 0 || prefix > max) throw new BadRequestException(`Invalid CIDR range: ${entry}`);
+
+    return { address, prefix, type: version === 4 ? 'ipv4' : 'ipv6' };
+  }
+
+  /** Everything except the hash. */
+  private toView(apiKey: ApiKey) {
+    const { key_hash, ...view } = apiKey;
+    return view;
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
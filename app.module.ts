@@ -4,15 +4,42 @@
  */
 
 import { Module, OnModuleInit, Logger } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { LoggerModule } from 'nestjs-pino';
 import { AuthModule } from '../../libs/auth/auth.module';
 import { StorageModule } from '../../libs/storage/storage.module';
 import { AuditModule } from '../../libs/audit/audit.module';
+import { AuditContextInterceptor } from '../../libs/audit/audit-context';
+import { AuditIntegrityService } from '../../libs/audit/audit-integrity.service';
+import { AuditRetentionService } from '../../libs/audit/audit-retention.service';
 import { PrismaModule } from '../../libs/prisma/prisma.module';
 import { PrismaService } from '../../libs/prisma/prisma.service';
-import { ConfigController } from './config/config.controller';
+import { RedisModule } from '../../libs/redis/redis.module';
+import { ActivityModule } from '../../libs/audit/activity.module';
+import { ModuleStateModule } from '../../libs/modules/module-state.module';
+import { PropertyModule } from '../../libs/properties/property.module';
+import { MetricsModule } from '../../libs/metrics/metrics.module';
+import { MODULE_CONFIG_SCHEMAS } from '../../libs/modules/module-config';
+import { ConfigController, PublicConfigController } from './config/config.controller';
 import { ConfigService as HmsConfigService } from './config/config.service';
+import { ConfigRevisionController } from './config/config-revision.controller';
+import { ConfigRevisionService } from './config/config-revision.service';
+import { ConfigLogoService } from './config/config-logo.service';
+import { UsersController } from './users/users.controller';
+import { UsersService } from './users/users.service';
+import { AuditController } from './audit/audit.controller';
+import { DutyReportController } from './reports/duty-report.controller';
+import { DutyReportService } from './reports/duty-report.service';
+import { ActivityController } from './activity/activity.controller';
+import { HealthController } from './health/health.controller';
+import { ModulesController } from './modules/modules.controller';
+import { MaintenanceController } from './maintenance/maintenance.controller';
+import { MaintenanceService } from './maintenance/maintenance.service';
+import { MaintenanceGuard } from './maintenance/maintenance.guard';
+import { PropertiesController } from './properties/properties.controller';
+import { MetricsController } from './metrics/metrics.controller';
 import { UpdaterModule } from '../../libs/updater/updater.module';
 
 @Module({
@@ -20,6 +47,9 @@ import { UpdaterModule } from '../../libs/updater/updater.module';
     // ── Environment ─────────────────────────────────────────────────────
     ConfigModule.forRoot({ isGlobal: true }),
 
+    // ── Scheduled Jobs ───────────────────────────────────────────────────
+    ScheduleModule.forRoot(),
+
     // ── Structured Logging ───────────────────────────────────────────────
     LoggerModule.forRoot({
       pinoHttp: {
@@ -34,13 +64,42 @@ import { UpdaterModule } from '../../libs/updater/updater.module';
 
     // ── Core Modules ─────────────────────────────────────────────────────
     PrismaModule,
+    RedisModule,
+    MetricsModule,
+    ActivityModule,
     AuditModule,
+    PropertyModule,
     AuthModule,
+    ModuleStateModule,
     StorageModule,
     UpdaterModule,
   ],
-  controllers: [ConfigController],
-  providers: [HmsConfigService],
+  controllers: [
+    PublicConfigController,
+    ConfigController,
+    ConfigRevisionController,
+    UsersController,
+    AuditController,
+    DutyReportController,
+    ActivityController,
+    HealthController,
+    ModulesController,
+    MaintenanceController,
+    PropertiesController,
+    MetricsController,
+  ],
+  providers: [
+    HmsConfigService,
+    ConfigRevisionService,
+    ConfigLogoService,
+    UsersService,
+    DutyReportService,
+    AuditIntegrityService,
+    AuditRetentionService,
+    MaintenanceService,
+    { provide: APP_GUARD, useClass: MaintenanceGuard },
+    { provide: APP_INTERCEPTOR, useClass: AuditContextInterceptor },
+  ],
 })
 export class AppModule implements OnModuleInit {
   private readonly logger = new Logger(AppModule.name);
@@ -48,36 +107,86 @@ export class AppModule implements OnModuleInit {
   constructor(private readonly prisma: PrismaService) {}
 
   /**
-   * Seed GlobalConfig if it doesn't exist yet.
+   * Seed the default property with its GlobalConfig and module states.
+   * Rows from before multi-property support are attached to it.
    * Called once on application startup.
    */
   async onModuleInit(): Promise<void> {
-    const existing = await this.prisma.globalConfig.count();
+    let property = await this.prisma.property.findFirst({ where: { is_default: true } });
 
-    if (existing === 0) {
-      await this.prisma.globalConfig.create({
+    if (!property) {
+      const legacy = await this.prisma.globalConfig.findFirst({ where: { property_id: null } });
+      property = await this.prisma.property.create({
         data: {
-          hotel_name: 'BBH Hotel',
-          currency: 'USD',
-          timezone: 'UTC',
-          maintenance_mode: false,
-          primary_color: '#1a56db',
-          accent_color: '#7e3af2',
+          slug: 'main',
+          name: legacy?.hotel_name ?? 'BBH Hotel',
+          hostnames: process.env.DOMAIN ? [process.env.DOMAIN.toLowerCase()] : [],
+          is_default: true,
         },
       });
-      this.logger.log('GlobalConfig seeded with default values');
+      this.logger.log(`Default property "${property.name}" created`);
+    }
+
+    const hasConfig = await this.prisma.globalConfig.count({ where: { property_id: property.id } });
+
+    if (hasConfig === 0) {
+      const legacy = await this.prisma.globalConfig.findFirst({ where: { property_id: null } });
+      if (legacy) {
+        await this.prisma.globalConfig.update({
+          where: { id: legacy.id },
+          data: { property_id: property.id },
+        });
+      } else {
+        await this.prisma.globalConfig.create({
+          data: {
+            property_id: property.id,
+            hotel_name: 'BBH Hotel',
+            currency: 'USD',
+            timezone: 'UTC',
+            maintenance_mode: false,
+            primary_color: '#1a56db',
+            accent_color: '#7e3af2',
+          },
+        });
+        this.logger.log('GlobalConfig seeded with default values');
+      }
     }
 
+    await this.prisma.moduleState.updateMany({
+      where: { property_id: null },
+      data: { property_id: property.id },
+    });
+    await this.prisma.configRevision.updateMany({
+      where: { property_id: null },
+      data: { property_id: property.id },
+    });
+    await this.prisma.accessWindow.updateMany({
+      where: { property_id: null, user_id: null },
+      data: { property_id: property.id },
+    });
+    await this.prisma.terminalDevice.updateMany({
+      where: { property_id: null },
+      data: { property_id: property.id },
+    });
+
     // Seed default module states
     const { ModuleName } = await import('@prisma/client');
     const modulesToSeed = Object.values(ModuleName);
+    const properties = await this.prisma.property.findMany({ select: { id: true } });
 
-    for (const moduleName of modulesToSeed) {
-      await this.prisma.moduleState.upsert({
-        where: { module_name: moduleName },
-        update: {},
-        create: { module_name: moduleName, is_enabled: false },
-      });
+    for (const { id: propertyId } of properties) {
+      for (const moduleName of modulesToSeed) {
+        await this.prisma.moduleState.upsert({
+          where: { property_id_module_name: { property_id: propertyId, module_name: moduleName } },
+          update: {},
+          create: {
+            property_id: propertyId,
+            module_name: moduleName,
+            is_enabled: false,
+            config_version: MODULE_CONFIG_SCHEMAS[moduleName].version,
+          },
+        });
+      }
     }
 
     this.logger.log(`BBH HMS API started. Environment: ${process.env.NODE_ENV}`);
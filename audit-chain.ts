@@ -0,0 +1,75 @@
+/**
+ * BBH HMS – Audit Hash Chain
+ * Each AuditLog row stores SHA-256(prev_hash + canonical content), so editing,
+ * inserting or deleting a row breaks every link after it.
+ */
+
+import { createHash } from 'crypto';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The columns covered by an entry's hash. */
+export interface ChainedAuditFields {
+  id: string;
+  action: string;
+  resource: string;
+  resource_id: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  ip_address: string | null;
+  user_agent: string | null;
+  timestamp: Date;
+  performed_by_id: string | null;
+  api_key_id: string | null;
+  property_id?: string | null;
+  prev_hash: string | null;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** pg_advisory_xact_lock key serialising appends to the chain. */
+export const AUDIT_CHAIN_LOCK_ID = 0x42424841; // "BBHA"
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+export function hashAuditEntry(entry: ChainedAuditFields): string {
+  const content = canonicalJson({
+    id: entry.id,
+    action: entry.action,
+    resource: entry.resource,
+    resource_id: entry.resource_id ?? null,
+    old_value: entry.old_value ?? null,
+    new_value: entry.new_value ?? null,
+    ip_address: entry.ip_address ?? null,
+    user_agent: entry.user_agent ?? null,
+    timestamp: entry.timestamp.toISOString(),
+    performed_by_id: entry.performed_by_id ?? null,
+    api_key_id: entry.api_key_id ?? null,
+    // Only hashed when set, so entries from before properties keep their hash
+    ...(entry.property_id ? { property_id: entry.property_id } : {}),
+  });
+
+  return createHash('sha256')
+    .update(`${entry.prev_hash ?? ''}\n${content}`)
+    .digest('hex');
+}
+
+/**
+ * Round-trip through JSON so the value hashed is exactly what a jsonb column
+ * gives back (Dates become strings, undefined keys disappear).
+ */
+export function toStoredJson(value: Record<string, unknown> | undefined): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/** JSON with object keys sorted – jsonb does not preserve key order. */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+    .join(',')}}`;
+}
@@ -0,0 +1,47 @@
+/**
+ * BBH HMS – Audit Request Context
+ * Carries per-request actor details (API key, user, IP, property) across
+ * async calls, so AuditService can attribute entries without every caller
+ * passing them.
+ * Registered globally as APP_INTERCEPTOR in AppModule.
+ */
+
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Observable } from 'rxjs';
+
+export interface AuditContext {
+  userId?: string;
+  apiKeyId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  propertyId?: string;
+}
+
+export const auditContext = new AsyncLocalStorage<AuditContext>();
+
+@Injectable()
+export class AuditContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') return next.handle();
+
+    const request = context.switchToHttp().getRequest();
+    const store: AuditContext = {
+      userId: request.user?.id,
+      apiKeyId: request.apiKey?.id,
+      ipAddress: request.ip,
+      userAgent: request.headers?.['user-agent'],
+      propertyId: request.property?.id,
+    };
+
+    // Subscribing inside run() executes the handler within the store
+    return new Observable((subscriber) =>
+      auditContext.run(store, () => next.handle().subscribe(subscriber)),
+    );
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * BBH HMS – CSV helpers for audit-derived exports
+ * RFC 4180 quoting, with formula injection neutralised for spreadsheet users.
+ */
+
+export function csvRow(values: Array<string | number | null | undefined>): string {
+  return values.map((value) => csvCell(value == null ? value : String(value))).join(',');
+}
+
+/** Leading =+-@ is neutralised so spreadsheets don't run it. */
+export function csvCell(value: string | null | undefined): string {
+  if (value == null) return '';
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,351 @@
+/**
+ * BBH HMS – AuditIntegrityService
+ * Verifies the AuditLog hash chain and issues signed checkpoints of its head.
+ *
+ * Checkpoints are signed with an Ed25519 key (AUDIT_SIGNING_KEY_FILE, PEM).
+ * Auditors keep the published public key and can prove, for any checkpoint,
+ * that every entry up to it is unchanged – even if someone with database
+ * access re-hashed the whole chain.
+ *
+ * Walking the whole chain takes a while, so verification runs as a job: its
+ * state lives in Redis, where any API instance can report it.
+ */
+
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import type { AuditCheckpoint } from '@prisma/client';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  KeyObject,
+  randomUUID,
+  sign,
+  verify,
+} from 'crypto';
+import * as fs from 'fs/promises';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { hashAuditEntry } from './audit-chain';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ChainBreak {
+  seq: number;
+  id: string;
+  reason: 'MISSING_HASH' | 'PREV_HASH_MISMATCH' | 'HASH_MISMATCH';
+}
+
+export interface CheckpointFailure {
+  id: string;
+  seq: number;
+  reason: 'BAD_SIGNATURE' | 'UNKNOWN_KEY' | 'ENTRY_MISSING' | 'HASH_MISMATCH';
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  unchainedEntries: number;   // Written before the chain was introduced
+  head: { seq: number; hash: string } | null;
+  firstBreak: ChainBreak | null;
+  checkpoints: { checked: number; failures: CheckpointFailure[] };
+}
+
+export interface VerificationJob {
+  id: string;
+  status: 'running' | 'finished' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  result?: ChainVerification;
+  error?: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const VERIFY_BATCH_SIZE = 1000;
+const CHECKPOINT_CRON = process.env.AUDIT_CHECKPOINT_CRON ?? CronExpression.EVERY_HOUR;
+
+/** audit_verify:<jobId> → VerificationJob (JSON); kept for a day. */
+const VERIFY_JOB_PREFIX = 'audit_verify:';
+const VERIFY_JOB_TTL_SECONDS = 24 * 60 * 60;
+
+/** The running job (JSON); expires should its instance die mid-walk. */
+const VERIFY_RUNNING_KEY = 'audit_verify_running';
+const VERIFY_RUNNING_TTL_SECONDS = 60 * 60;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class AuditIntegrityService implements OnModuleInit {
+  private readonly logger = new Logger(AuditIntegrityService.name);
+  private signingKey: KeyObject | null = null;
+  private publicKey: KeyObject | null = null;
+  private keyId: string | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const file = process.env.AUDIT_SIGNING_KEY_FILE;
+    if (!file) {
+      this.logger.warn('AUDIT_SIGNING_KEY_FILE not set – audit checkpoints are disabled');
+      return;
+    }
+
+    const key = createPrivateKey(await fs.readFile(file, 'utf8'));
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error('AUDIT_SIGNING_KEY_FILE must contain an Ed25519 private key');
+    }
+
+    this.signingKey = key;
+    this.publicKey = createPublicKey(key);
+    this.keyId = createHash('sha256')
+      .update(this.publicKey.export({ type: 'spki', format: 'der' }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Walks the chain in seq order and reports the first broken link.
+   * Checkpoints are checked along the way; one pointing past the current
+   * head means the newest entries were deleted.
+   *
+   * Entries may only be missing from the start of the table once they were
+   * archived, so the oldest remaining entry must link to the newest archive's
+   * last hash (or to nothing when there are no archives).
+   */
+  async verifyChain(): Promise<ChainVerification> {
+    const archives = await this.prisma.auditArchive.findMany({
+      select: { first_seq: true, last_seq: true, last_hash: true },
+      orderBy: { last_seq: 'desc' },
+    });
+    const checkpoints = await this.prisma.auditCheckpoint.findMany({
+      orderBy: { seq: 'asc' },
+    });
+    const pending = new Map<number, AuditCheckpoint[]>();
+    for (const checkpoint of checkpoints) {
+      pending.set(checkpoint.seq, [...(pending.get(checkpoint.seq) ?? []), checkpoint]);
+    }
+
+    const failures: CheckpointFailure[] = [];
+    for (const checkpoint of checkpoints) {
+      const reason = this.checkSignature(checkpoint);
+      if (reason) failures.push({ id: checkpoint.id, seq: checkpoint.seq, reason });
+    }
+
+    let checkedEntries = 0;
+    let unchainedEntries = 0;
+    // undefined until the chain starts; unchained entries may only precede it
+    let prevHash: string | null | undefined = archives[0]?.last_hash ?? undefined;
+    let head: ChainVerification['head'] = null;
+    let firstBreak: ChainBreak | null = null;
+    let cursor = 0;
+
+    walk: for (;;) {
+      const rows = await this.prisma.auditLog.findMany({
+        where: { seq: { gt: cursor } },
+        orderBy: { seq: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+      });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        cursor = row.seq;
+        checkedEntries++;
+
+        if (!row.hash) {
+          if (prevHash === undefined) {
+            unchainedEntries++;
+            continue;
+          }
+          firstBreak = { seq: row.seq, id: row.id, reason: 'MISSING_HASH' };
+          break walk;
+        }
+
+        if (row.prev_hash !== (prevHash ?? null)) {
+          firstBreak = { seq: row.seq, id: row.id, reason: 'PREV_HASH_MISMATCH' };
+          break walk;
+        }
+        if (hashAuditEntry(row) !== row.hash) {
+          firstBreak = { seq: row.seq, id: row.id, reason: 'HASH_MISMATCH' };
+          break walk;
+        }
+
+        for (const checkpoint of pending.get(row.seq) ?? []) {
+          if (checkpoint.hash !== row.hash) {
+            failures.push({ id: checkpoint.id, seq: checkpoint.seq, reason: 'HASH_MISMATCH' });
+          }
+        }
+        pending.delete(row.seq);
+
+        prevHash = row.hash;
+        head = { seq: row.seq, hash: row.hash };
+      }
+    }
+
+    // Checkpoints never reached: fine if an archive holds their entry,
+    // otherwise the entry they vouch for is gone. Not judged past a chain break.
+    if (!firstBreak) {
+      for (const [seq, remaining] of pending) {
+        if (archives.some((a) => seq >= a.first_seq && seq <= a.last_seq)) continue;
+        for (const checkpoint of remaining) {
+          failures.push({ id: checkpoint.id, seq, reason: 'ENTRY_MISSING' });
+        }
+      }
+    }
+
+    return {
+      valid: !firstBreak && failures.length === 0,
+      checkedEntries,
+      unchainedEntries,
+      head,
+      firstBreak,
+      checkpoints: { checked: checkpoints.length, failures },
+    };
+  }
+
+  /**
+   * Starts verifyChain() in the background and returns its job; poll it with
+   * getVerification(). While one is running, that job is returned instead.
+   */
+  async startVerification(): Promise<VerificationJob> {
+    const job: VerificationJob = {
+      id: randomUUID(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+    };
+
+    const claimed = await this.redis.client.set(VERIFY_RUNNING_KEY, JSON.stringify(job), {
+      NX: true,
+      EX: VERIFY_RUNNING_TTL_SECONDS,
+    });
+    if (!claimed) {
+      const running = await this.redis.client.get(VERIFY_RUNNING_KEY);
+      if (running) return JSON.parse(running) as VerificationJob;
+      return this.startVerification(); // Finished in between
+    }
+
+    await this.saveJob(job);
+    void this.runVerification(job);
+    return job;
+  }
+
+  async getVerification(id: string): Promise<VerificationJob> {
+    const job = await this.loadJob(id);
+    if (!job) throw new NotFoundException('Verification not found');
+    return job;
+  }
+
+  /** Signs the current chain head. No-op when nothing was logged since the last one. */
+  async createCheckpoint(): Promise<AuditCheckpoint | null> {
+    if (!this.signingKey || !this.keyId) return null;
+
+    const head = await this.prisma.auditLog.findFirst({
+      where: { hash: { not: null } },
+      orderBy: { seq: 'desc' },
+      select: { seq: true, hash: true },
+    });
+    if (!head?.hash) return null;
+
+    const latest = await this.prisma.auditCheckpoint.findFirst({
+      orderBy: { seq: 'desc' },
+    });
+    if (latest?.seq === head.seq) return latest;
+
+    const createdAt = new Date();
+    const signature = sign(
+      null,
+      Buffer.from(this.signedPayload(head.seq, head.hash, createdAt)),
+      this.signingKey,
+    ).toString('base64');
+
+    return this.prisma.auditCheckpoint.create({
+      data: {
+        seq: head.seq,
+        hash: head.hash,
+        signature,
+        key_id: this.keyId,
+        created_at: createdAt,
+      },
+    });
+  }
+
+  /** Checkpoints with the public key needed to verify them independently. */
+  async listCheckpoints(take: number = 100) {
+    const checkpoints = await this.prisma.auditCheckpoint.findMany({
+      orderBy: { created_at: 'desc' },
+      take,
+    });
+
+    return {
+      keyId: this.keyId,
+      publicKey: this.publicKey?.export({ type: 'spki', format: 'pem' }).toString() ?? null,
+      payloadFormat: '<seq>:<hash>:<created_at ISO 8601>',
+      checkpoints,
+    };
+  }
+
+  @Cron(CHECKPOINT_CRON)
+  async scheduledCheckpoint(): Promise<void> {
+    try {
+      const checkpoint = await this.createCheckpoint();
+      if (checkpoint) this.logger.log(`Audit checkpoint at seq ${checkpoint.seq}`);
+    } catch (error: any) {
+      this.logger.error(`Audit checkpoint failed: ${error.message}`);
+    }
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async runVerification(job: VerificationJob): Promise<void> {
+    try {
+      job.result = await this.verifyChain();
+      job.status = 'finished';
+      if (!job.result.valid) this.logger.warn(`Audit chain verification ${job.id} failed`);
+    } catch (error: any) {
+      job.status = 'failed';
+      job.error = error.message;
+      this.logger.error(`Audit chain verification ${job.id} crashed: ${error.message}`);
+    }
+    job.finishedAt = new Date().toISOString();
+
+    try {
+      await this.saveJob(job);
+      const running = await this.redis.client.get(VERIFY_RUNNING_KEY);
+      if (running && (JSON.parse(running) as VerificationJob).id === job.id) {
+        await this.redis.client.del(VERIFY_RUNNING_KEY);
+      }
+    } catch (error: any) {
+      this.logger.error(`Could not store audit chain verification ${job.id}: ${error.message}`);
+    }
+  }
+
+  private async saveJob(job: VerificationJob): Promise<void> {
+    await this.redis.client.set(VERIFY_JOB_PREFIX + job.id, JSON.stringify(job), {
+      EX: VERIFY_JOB_TTL_SECONDS,
+    });
+  }
+
+  private async loadJob(id: string): Promise<VerificationJob | null> {
+    const raw = await this.redis.client.get(VERIFY_JOB_PREFIX + id);
+    return raw ? (JSON.parse(raw) as VerificationJob) : null;
+  }
+
+  private checkSignature(checkpoint: AuditCheckpoint): CheckpointFailure['reason'] | null {
+    if (!this.publicKey || checkpoint.key_id !== this.keyId) return 'UNKNOWN_KEY';
+
+    const valid = verify(
+      null,
+      Buffer.from(this.signedPayload(checkpoint.seq, checkpoint.hash, checkpoint.created_at)),
+      this.publicKey,
+      Buffer.from(checkpoint.signature, 'base64'),
+    );
+    return valid ? null : 'BAD_SIGNATURE';
+  }
+
+  private signedPayload(seq: number, hash: string, createdAt: Date): string {
+    return `${seq}:${hash}:${createdAt.toISOString()}`;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * BBH HMS – Audit Redaction
+ * Keeps secrets out of the audit log and reduces before/after snapshots to
+ * the fields that changed. AuditService.log redacts every entry, so callers
+ * building oldValue / newValue by hand get the same treatment as @Audited.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type Snapshot = Record<string, unknown> | null;
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const REDACTED = '[REDACTED]';
+
+/** Never stored in the audit log, at any depth. Extend with AUDIT_REDACT_FIELDS. */
+const SENSITIVE_FIELDS = new Set([
+  'password',
+  'password_hash',
+  'newPassword',
+  'currentPassword',
+  'pin',
+  'pin_code',
+  'mfa_secret',
+  'mfa_recovery_codes',
+  'token',
+  'token_hash',
+  'key_hash',
+  ...(process.env.AUDIT_REDACT_FIELDS ?? '')
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean),
+]);
+
+/** Bookkeeping columns that change on every write. */
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Only the top-level fields that differ, redacted.
+ * Returns null when before and after are identical.
+ */
+export function diffChanges(
+  before: Snapshot,
+  after: Snapshot,
+): { oldValue?: Record<string, unknown>; newValue?: Record<string, unknown> } | null {
+  if (!before) return after ? { newValue: redactSensitive(after) } : null;
+  if (!after) return { oldValue: redactSensitive(before) };
+
+  const oldValue: Record<string, unknown> = {};
+  const newValue: Record<string, unknown> = {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    if (key in before) oldValue[key] = before[key];
+    if (key in after) newValue[key] = after[key];
+  }
+
+  if (Object.keys(oldValue).length === 0 && Object.keys(newValue).length === 0) return null;
+  return { oldValue: redactSensitive(oldValue), newValue: redactSensitive(newValue) };
+}
+
+export function redactSensitive<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(redactSensitive) as T;
+  if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SENSITIVE_FIELDS.has(key) ? REDACTED : redactSensitive(field),
+    ]),
+  ) as T;
+}
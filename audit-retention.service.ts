@@ -0,0 +1,342 @@
+/**
+ * BBH HMS – AuditRetentionService
+ * Moves audit entries older than AUDIT_RETENTION_DAYS into gzipped NDJSON
+ * archives in bbh-private, then prunes them from PostgreSQL.
+ *
+ * Layout (one archive per UTC day, oldest first):
+ *   audit-archive/YYYY/MM/DD/<firstSeq>-<lastSeq>.ndjson.gz
+ *   audit-archive/YYYY/MM/DD/<firstSeq>-<lastSeq>.manifest.json
+ *
+ * Archives cover a contiguous seq range, so the remaining rows still form an
+ * unbroken hash chain; the manifest records the hashes at both ends.
+ */
+
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import type { AuditArchive, AuditLog } from '@prisma/client';
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService, BUCKET_PRIVATE } from '../storage/storage.service';
+import { AuditService } from './audit.service';
+import { hashAuditEntry } from './audit-chain';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ArchiveManifest {
+  format: 'bbh-audit-archive/1';
+  day: string;              // YYYY-MM-DD (UTC)
+  entryCount: number;
+  firstSeq: number;
+  lastSeq: number;
+  firstPrevHash: string | null;
+  lastHash: string | null;
+  sha256: string;           // Of the .ndjson.gz object
+  ndjsonSha256: string;     // Of the uncompressed NDJSON
+  sizeBytes: number;
+  createdAt: string;
+}
+
+export interface ArchiveEntriesQuery {
+  action?: string;
+  resource?: string;
+  performedById?: string;
+  afterSeq?: number;
+  limit?: number;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const RETENTION_DAYS = parseInt(process.env.AUDIT_RETENTION_DAYS ?? '365', 10); // 0 = keep forever
+const ARCHIVE_CRON = process.env.AUDIT_ARCHIVE_CRON ?? '30 3 * * *';
+const ARCHIVE_PREFIX = 'audit-archive';
+const READ_BATCH_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class AuditRetentionService {
+  private readonly logger = new Logger(AuditRetentionService.name);
+  private isArchiving = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly audit: AuditService,
+  ) {}
+
+  @Cron(ARCHIVE_CRON)
+  async scheduledArchive(): Promise<void> {
+    if (RETENTION_DAYS <= 0) return;
+
+    try {
+      const archives = await this.archiveExpired();
+      if (archives.length > 0) {
+        this.logger.log(`Archived ${archives.length} day(s) of audit entries`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Audit archival failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Archives whole UTC days older than the retention period, oldest first.
+   * Safe to re-run: object keys are derived from the seq range.
+   */
+  async archiveExpired(): Promise<AuditArchive[]> {
+    if (this.isArchiving) return [];
+    this.isArchiving = true;
+
+    try {
+      const cutoff = startOfUtcDay(new Date(Date.now() - RETENTION_DAYS * DAY_MS));
+      const archives: AuditArchive[] = [];
+
+      for (;;) {
+        const oldest = await this.prisma.auditLog.findFirst({
+          where: { timestamp: { lt: cutoff } },
+          orderBy: { seq: 'asc' },
+          select: { seq: true, timestamp: true },
+        });
+        if (!oldest) break;
+
+        const day = startOfUtcDay(oldest.timestamp);
+        const dayEnd = new Date(Math.min(day.getTime() + DAY_MS, cutoff.getTime()));
+
+        // Everything up to the last entry of that day – by seq, so a
+        // straggler with an out-of-order timestamp cannot leave a gap.
+        const last = await this.prisma.auditLog.findFirst({
+          where: { timestamp: { lt: dayEnd } },
+          orderBy: { seq: 'desc' },
+          select: { seq: true },
+        });
+
+        archives.push(await this.archiveRange(day, oldest.seq, last!.seq));
+      }
+
+      return archives;
+    } finally {
+      this.isArchiving = false;
+    }
+  }
+
+  async listArchives() {
+    return this.prisma.auditArchive.findMany({
+      orderBy: { day: 'desc' },
+      include: { _count: { select: { restored_entries: true } } },
+    });
+  }
+
+  /**
+   * Loads an archive into the restore view (audit_logs_restored) after
+   * checking its checksum. Entry hashes are re-checked and reported.
+   */
+  async restore(archiveId: string, performedById: string, ipAddress?: string) {
+    const archive = await this.findArchive(archiveId);
+
+    const gz = await this.storage.readFile(BUCKET_PRIVATE, archive.object_key);
+    if (sha256(gz) !== archive.sha256) {
+      throw new ConflictException('Archive checksum mismatch – the stored file has been altered');
+    }
+
+    const rows = gunzipSync(gz)
+      .toString('utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const row = JSON.parse(line);
+        return { ...row, timestamp: new Date(row.timestamp) } as AuditLog;
+      });
+
+    let invalidEntries = 0;
+    let prevHash = archive.first_prev_hash;
+    for (const row of rows) {
+      if (row.hash && (row.prev_hash !== prevHash || hashAuditEntry(row) !== row.hash)) {
+        invalidEntries++;
+      }
+      prevHash = row.hash;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.restoredAuditLog.deleteMany({ where: { archive_id: archive.id } }),
+      this.prisma.restoredAuditLog.createMany({
+        data: rows.map((row) => ({
+          ...row,
+          archive_id: archive.id,
+          old_value: (row.old_value ?? Prisma.DbNull) as Prisma.InputJsonValue,
+          new_value: (row.new_value ?? Prisma.DbNull) as Prisma.InputJsonValue,
+        })),
+      }),
+      this.prisma.auditArchive.update({
+        where: { id: archive.id },
+        data: { restored_at: new Date() },
+      }),
+    ]);
+
+    await this.audit.log({
+      action: 'AUDIT_ARCHIVE_RESTORED',
+      resource: 'AuditArchive',
+      resourceId: archive.id,
+      newValue: { day: archive.day, entries: rows.length, invalidEntries },
+      performedById,
+      ipAddress,
+    });
+
+    return { restoredEntries: rows.length, invalidEntries };
+  }
+
+  /** Browse a restored archive in seq order. */
+  async listRestoredEntries(archiveId: string, query: ArchiveEntriesQuery) {
+    const archive = await this.findArchive(archiveId);
+    if (!archive.restored_at) {
+      throw new ConflictException('Archive is not restored');
+    }
+
+    return this.prisma.restoredAuditLog.findMany({
+      where: {
+        archive_id: archive.id,
+        ...(query.action ? { action: query.action } : {}),
+        ...(query.resource ? { resource: query.resource } : {}),
+        ...(query.performedById ? { performed_by_id: query.performedById } : {}),
+        ...(query.afterSeq !== undefined ? { seq: { gt: query.afterSeq } } : {}),
+      },
+      orderBy: { seq: 'asc' },
+      take: query.limit ?? 100,
+    });
+  }
+
+  /** Empties the restore view for an archive once the investigation is done. */
+  async dropRestore(archiveId: string, performedById: string, ipAddress?: string) {
+    const archive = await this.findArchive(archiveId);
+
+    await this.prisma.$transaction([
+      this.prisma.restoredAuditLog.deleteMany({ where: { archive_id: archive.id } }),
+      this.prisma.auditArchive.update({
+        where: { id: archive.id },
+        data: { restored_at: null },
+      }),
+    ]);
+
+    await this.audit.log({
+      action: 'AUDIT_ARCHIVE_RESTORE_DROPPED',
+      resource: 'AuditArchive',
+      resourceId: archive.id,
+      performedById,
+      ipAddress,
+    });
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async archiveRange(day: Date, firstSeq: number, lastSeq: number): Promise<AuditArchive> {
+    const lines: string[] = [];
+    let first: AuditLog | undefined;
+    let last: AuditLog | undefined;
+    let cursor = firstSeq - 1;
+
+    for (;;) {
+      const rows = await this.prisma.auditLog.findMany({
+        where: { seq: { gt: cursor, lte: lastSeq } },
+        orderBy: { seq: 'asc' },
+        take: READ_BATCH_SIZE,
+      });
+      if (rows.length === 0) break;
+
+      for (const row of rows) lines.push(JSON.stringify(row) + '\n');
+      first ??= rows[0];
+      last = rows[rows.length - 1];
+      cursor = last.seq;
+    }
+
+    const ndjson = Buffer.from(lines.join(''), 'utf8');
+    const gz = gzipSync(ndjson);
+    const dayLabel = day.toISOString().slice(0, 10);
+    const keyBase = `${ARCHIVE_PREFIX}/${dayLabel.replace(/-/g, '/')}/${pad(firstSeq)}-${pad(lastSeq)}`;
+
+    const manifest: ArchiveManifest = {
+      format: 'bbh-audit-archive/1',
+      day: dayLabel,
+      entryCount: lines.length,
+      firstSeq,
+      lastSeq,
+      firstPrevHash: first?.prev_hash ?? null,
+      lastHash: last?.hash ?? null,
+      sha256: sha256(gz),
+      ndjsonSha256: sha256(ndjson),
+      sizeBytes: gz.length,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.storage.putObject(BUCKET_PRIVATE, `${keyBase}.ndjson.gz`, gz, 'application/gzip');
+    await this.storage.putObject(
+      BUCKET_PRIVATE,
+      `${keyBase}.manifest.json`,
+      Buffer.from(JSON.stringify(manifest, null, 2)),
+      'application/json',
+    );
+
+    // Record the archive and prune in one transaction: rows are only ever
+    // deleted once their archive is both uploaded and registered.
+    const [archive] = await this.prisma.$transaction([
+      this.prisma.auditArchive.create({
+        data: {
+          day,
+          object_key: `${keyBase}.ndjson.gz`,
+          manifest_key: `${keyBase}.manifest.json`,
+          entry_count: manifest.entryCount,
+          first_seq: firstSeq,
+          last_seq: lastSeq,
+          first_prev_hash: manifest.firstPrevHash,
+          last_hash: manifest.lastHash,
+          sha256: manifest.sha256,
+          size_bytes: manifest.sizeBytes,
+        },
+      }),
+      this.prisma.auditLog.deleteMany({
+        where: { seq: { gte: firstSeq, lte: lastSeq } },
+      }),
+    ]);
+
+    await this.audit.log({
+      action: 'AUDIT_ARCHIVED',
+      resource: 'AuditArchive',
+      resourceId: archive.id,
+      newValue: {
+        day: dayLabel,
+        entries: manifest.entryCount,
+        firstSeq,
+        lastSeq,
+        objectKey: archive.object_key,
+        sha256: manifest.sha256,
+      },
+    });
+
+    return archive;
+  }
+
+  private async findArchive(id: string): Promise<AuditArchive> {
+    const archive = await this.prisma.auditArchive.findUnique({ where: { id } });
+    if (!archive) throw new NotFoundException('Archive not found');
+    return archive;
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function pad(seq: number): string {
+  return String(seq).padStart(10, '0');
+}
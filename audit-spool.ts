@@ -0,0 +1,131 @@
+/**
+ * BBH HMS – Audit Spool
+ * Local append-only NDJSON file holding audit entries that could not be
+ * written to PostgreSQL. AuditService replays them, oldest first.
+ *
+ *   <dir>/audit-spool.ndjson            – new entries are appended here
+ *   <dir>/audit-spool.replaying.ndjson  – batch currently being replayed
+ *
+ * Replay claims the active file by renaming it, so appends never race with
+ * the rewrite of a partially replayed batch. Entries keep their original id
+ * and timestamp, which also makes a replay after a crash idempotent.
+ */
+
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ChainedAuditFields } from './audit-chain';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SpooledAuditEntry = Omit<ChainedAuditFields, 'prev_hash' | 'timestamp'> & {
+  timestamp: string;
+};
+
+// ─── Spool ────────────────────────────────────────────────────────────────────
+
+export class AuditSpool {
+  private readonly logger = new Logger(AuditSpool.name);
+  private readonly activeFile: string;
+  private readonly replayFile: string;
+  private pending = 0;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.activeFile = path.join(dir, 'audit-spool.ndjson');
+    this.replayFile = path.join(dir, 'audit-spool.replaying.ndjson');
+  }
+
+  /** Entries waiting to be written to the database. */
+  get size(): number {
+    return this.pending;
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(path.dirname(this.activeFile), { recursive: true });
+    this.pending =
+      (await this.read(this.replayFile)).length + (await this.read(this.activeFile)).length;
+  }
+
+  /** Appends and fsyncs one entry; resolves once it is on disk. */
+  async append(entry: SpooledAuditEntry): Promise<void> {
+    await this.exclusive(async () => {
+      const handle = await fs.open(this.activeFile, 'a', 0o600);
+      try {
+        await handle.write(JSON.stringify(entry) + '\n');
+        await handle.datasync();
+      } finally {
+        await handle.close();
+      }
+      this.pending++;
+    });
+  }
+
+  /**
+   * The oldest batch: an unfinished replay if there is one, otherwise the
+   * active file (renamed so new appends start a fresh file).
+   */
+  async claim(): Promise<SpooledAuditEntry[]> {
+    return this.exclusive(async () => {
+      if (!(await exists(this.replayFile))) {
+        if (!(await exists(this.activeFile))) return [];
+        await fs.rename(this.activeFile, this.replayFile);
+      }
+      return this.read(this.replayFile);
+    });
+  }
+
+  /** Records progress on the claimed batch; `remaining` are still unwritten. */
+  async settle(replayed: number, remaining: SpooledAuditEntry[]): Promise<void> {
+    await this.exclusive(async () => {
+      if (remaining.length === 0) {
+        await fs.rm(this.replayFile, { force: true });
+      } else {
+        const tmp = `${this.replayFile}.tmp`;
+        await fs.writeFile(tmp, remaining.map((entry) => JSON.stringify(entry) + '\n').join(''), {
+          mode: 0o600,
+        });
+        await fs.rename(tmp, this.replayFile);
+      }
+      this.pending = Math.max(0, this.pending - replayed);
+    });
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async read(file: string): Promise<SpooledAuditEntry[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: SpooledAuditEntry[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash mid-append
+        this.logger.warn(`Skipping unreadable line in ${path.basename(file)}`);
+      }
+    }
+    return entries;
+  }
+
+  /** Serialises file operations within this process. */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(
+    () => true,
+    () => false,
+  );
+}
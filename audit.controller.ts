@@ -0,0 +1,273 @@
+/**
+ * BBH HMS – Audit Log Controller
+ * /api/admin/audit – search and checkpoints (audit:read), streaming export
+ * (audit:export), chain verification, archives and restores (audit:archive).
+ * Search and export are limited to the current property, except for OWNERs.
+ */
+
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsIP,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { Role } from '@prisma/client';
+import type { Property, User } from '@prisma/client';
+import { Readable } from 'stream';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import { AuditService, AuditSearchFilters } from '../../../libs/audit/audit.service';
+import { AuditIntegrityService } from '../../../libs/audit/audit-integrity.service';
+import { AuditRetentionService } from '../../../libs/audit/audit-retention.service';
+import { csvRow } from '../../../libs/audit/audit-csv';
+import { PropertyService } from '../../../libs/properties/property.service';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export class AuditFilterQueryDto {
+  @IsOptional() @IsString() @MaxLength(500) action?: string; // Comma-separated
+  @IsOptional() @IsString() @MaxLength(100) resource?: string;
+  @IsOptional() @IsString() @MaxLength(100) resourceId?: string;
+  @IsOptional() @IsUUID() performedById?: string;
+  @IsOptional() @IsIP() ipAddress?: string;
+  @IsOptional() @IsDate() from?: Date;
+  @IsOptional() @IsDate() to?: Date;
+}
+
+export class AuditSearchQueryDto extends AuditFilterQueryDto {
+  @IsOptional() @IsString() @MaxLength(200) cursor?: string;
+  @IsOptional() @IsInt() @Min(1) @Max(200) limit?: number;
+}
+
+export class AuditExportQueryDto extends AuditFilterQueryDto {
+  @IsIn(['csv', 'ndjson']) format!: 'csv' | 'ndjson';
+}
+
+export class ArchiveEntriesQueryDto {
+  @IsOptional() @IsString() @MaxLength(100) action?: string;
+  @IsOptional() @IsString() @MaxLength(100) resource?: string;
+  @IsOptional() @IsUUID() performedById?: string;
+  @IsOptional() @IsInt() @Min(0) afterSeq?: number;
+  @IsOptional() @IsInt() @Min(1) @Max(500) limit?: number;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'id',
+  'action',
+  'resource',
+  'resource_id',
+  'performed_by_id',
+  'performed_by_email',
+  'api_key_id',
+  'ip_address',
+  'user_agent',
+  'old_value',
+  'new_value',
+];
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+@Controller('admin/audit')
+@UseGuards(AuthGuard, PermissionsGuard)
+export class AuditController {
+  constructor(
+    private readonly audit: AuditService,
+    private readonly integrity: AuditIntegrityService,
+    private readonly retention: AuditRetentionService,
+    private readonly properties: PropertyService,
+  ) {}
+
+  @Get()
+  @RequirePermission('audit:read')
+  async search(
+    @Query() query: AuditSearchQueryDto,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+  ) {
+    const filters = this.scope(toFilters(query), user, property);
+    return this.audit.search(filters, query.cursor, query.limit ?? 50);
+  }
+
+  /**
+   * Starts walking the hash chain and checking every signed checkpoint.
+   * Returns the job to poll with GET verify/:id.
+   */
+  @Post('verify')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequirePermission('audit:archive')
+  async verify() {
+    return this.integrity.startVerification();
+  }
+
+  @Get('verify/:id')
+  @RequirePermission('audit:archive')
+  async verification(@Param('id', ParseUUIDPipe) id: string) {
+    return this.integrity.getVerification(id);
+  }
+
+  @Get('checkpoints')
+  @RequirePermission('audit:read')
+  async checkpoints() {
+    return this.integrity.listCheckpoints();
+  }
+
+  // ── Archives ───────────────────────────────────────────────────────────────
+
+  @Get('archives')
+  @RequirePermission('audit:archive')
+  async listArchives() {
+    return this.retention.listArchives();
+  }
+
+  /** Loads an archive into the restore view after verifying its checksum. */
+  @Post('archives/:id/restore')
+  @RequirePermission('audit:archive')
+  @HttpCode(HttpStatus.OK)
+  async restoreArchive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.retention.restore(id, user.id, req.ip);
+  }
+
+  @Get('archives/:id/entries')
+  @RequirePermission('audit:archive')
+  async listRestoredEntries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ArchiveEntriesQueryDto,
+  ) {
+    return this.retention.listRestoredEntries(id, query);
+  }
+
+  @Delete('archives/:id/restore')
+  @RequirePermission('audit:archive')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async dropRestore(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.retention.dropRestore(id, user.id, req.ip);
+  }
+
+  // ── Export ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Streams every matching entry, newest first.
+   * The export itself is audited, including the filters used.
+   */
+  @Get('export')
+  @RequirePermission('audit:export')
+  async export(
+    @Query() query: AuditExportQueryDto,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const filters = toFilters(query);
+
+    await this.audit.log({
+      action: 'AUDIT_EXPORTED',
+      resource: 'AuditLog',
+      newValue: {
+        format: query.format,
+        filters: { ...filters, from: filters.from?.toISOString(), to: filters.to?.toISOString() },
+      },
+      performedById: user.id,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    const rows = this.audit.iterate(this.scope(filters, user, property));
+
+    const lines = query.format === 'csv'
+      ? (async function* () {
+          yield csvRow(CSV_COLUMNS) + '\r\n';
+          for await (const row of rows) yield toCsvLine(row) + '\r\n';
+        })()
+      : (async function* () {
+          for await (const row of rows) yield JSON.stringify(row) + '\n';
+        })();
+
+    return reply
+      .header(
+        'Content-Type',
+        query.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      )
+      .header('Content-Disposition', `attachment; filename="audit-${stamp}.${query.format}"`)
+      .send(Readable.from(lines));
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /** OWNERs see the whole group; everyone else only the current property. */
+  private scope(filters: AuditSearchFilters, user: User, property: Property): AuditSearchFilters {
+    if (user.role === Role.OWNER) return filters;
+    return { ...filters, property: { id: property.id, staff: this.properties.staffWhere(property) } };
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function toFilters(query: AuditFilterQueryDto): AuditSearchFilters {
+  return {
+    actions: query.action
+      ?.split(',')
+      .map((a) => a.trim())
+      .filter(Boolean),
+    resource: query.resource,
+    resourceId: query.resourceId,
+    performedById: query.performedById,
+    ipAddress: query.ipAddress,
+    from: query.from,
+    to: query.to,
+  };
+}
+
+type ExportRow = Awaited<ReturnType<AuditService['search']>>['items'][number];
+
+function toCsvLine(row: ExportRow): string {
+  return csvRow([
+    row.timestamp.toISOString(),
+    row.id,
+    row.action,
+    row.resource,
+    row.resource_id,
+    row.performed_by_id,
+    row.performed_by?.email,
+    row.api_key_id,
+    row.ip_address,
+    row.user_agent,
+    row.old_value == null ? null : JSON.stringify(row.old_value),
+    row.new_value == null ? null : JSON.stringify(row.new_value),
+  ]);
+}
@@ -1,11 +1,37 @@
 /**
  * BBH HMS – AuditService
- * Write-only audit log. Never updated, never deleted.
+ * Write-only audit log. Never updated; only pruned once archived (AuditRetentionService).
+ * Entries form a SHA-256 hash chain (see audit-chain.ts) so tampering is detectable.
  * All significant actions flow through here for compliance and duty logs.
+ * Writes that fail are spooled to disk and replayed in order (audit-spool.ts).
+ * Each instance spools into its own subdirectory of AUDIT_SPOOL_DIR, named by
+ * AUDIT_INSTANCE_ID (default: host name), so instances sharing the volume
+ * never claim each other's files. Order is kept per instance only.
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { isUUID } from 'class-validator';
 import { PrismaService } from '../prisma/prisma.service';
+import { auditContext } from './audit-context';
+import { ActivityService } from './activity.service';
+import {
+  AUDIT_CHAIN_LOCK_ID,
+  ChainedAuditFields,
+  hashAuditEntry,
+  toStoredJson,
+} from './audit-chain';
+import { AuditSpool, SpooledAuditEntry } from './audit-spool';
+import { redactSensitive } from './audit-redact';
 
 export interface AuditLogInput {
   action: string;
@@ -14,35 +40,147 @@ export interface AuditLogInput {
   oldValue?: Record<string, unknown>;
   newValue?: Record<string, unknown>;
   performedById?: string;
+  apiKeyId?: string;      // Defaults to the API key of the current request
+  propertyId?: string;    // Defaults to the property of the current request
   ipAddress?: string;
   userAgent?: string;
 }
 
+export interface AuditSearchFilters {
+  actions?: string[];
+  resource?: string;
+  resourceId?: string;
+  performedById?: string;
+  ipAddress?: string;
+  from?: Date;            // Inclusive
+  to?: Date;              // Exclusive
+  /** Entries made on this property, plus group-wide ones (logins, …) by its staff. */
+  property?: { id: string; staff: Prisma.UserWhereInput };
+}
+
+/** Newest first; id breaks ties between entries with the same timestamp. */
+const AUDIT_ORDER: Prisma.AuditLogOrderByWithRelationInput[] = [
+  { timestamp: 'desc' },
+  { id: 'desc' },
+];
+
+const SPOOL_REPLAY_INTERVAL_MS = 10_000;
+
+/** This instance's own spool; the shared volume holds one subdirectory per instance. */
+const SPOOL_DIR = path.join(
+  process.env.AUDIT_SPOOL_DIR ?? './spool',
+  process.env.AUDIT_INSTANCE_ID || os.hostname(),
+);
+
+const AUDIT_ACTOR_SELECT = { select: { first_name: true, last_name: true, email: true } };
+
 @Injectable()
-export class AuditService {
+export class AuditService implements OnModuleInit {
   private readonly logger = new Logger(AuditService.name);
+  private readonly spool = new AuditSpool(SPOOL_DIR);
+  private isReplaying = false;
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly activity: ActivityService,
+  ) {}
 
+  /**
+   * Records an entry. While the database is unreachable – or older entries
+   * are still waiting in this instance's spool – entries go to the spool so
+   * that nothing is lost and this instance's entries keep their order. Sensitive fields in
+   * oldValue / newValue are redacted (audit-redact.ts).
+   */
   async log(input: AuditLogInput): Promise<void> {
+    const entry: SpooledAuditEntry = {
+      id: randomUUID(),
+      action: input.action,
+      resource: input.resource,
+      resource_id: input.resourceId ?? null,
+      old_value: toStoredJson(redactSensitive(input.oldValue)),
+      new_value: toStoredJson(redactSensitive(input.newValue)),
+      performed_by_id: input.performedById ?? null,
+      api_key_id: input.apiKeyId ?? auditContext.getStore()?.apiKeyId ?? null,
+      property_id: input.propertyId ?? auditContext.getStore()?.propertyId ?? null,
+      ip_address: input.ipAddress ?? null,
+      user_agent: input.userAgent ?? null,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (this.spool.size === 0) {
+      try {
+        await this.append(entry);
+        return;
+      } catch (error: any) {
+        if (!isTransientDbError(error)) {
+          // Audit logging must never crash the main flow
+          this.logger.error(`Failed to write audit log: ${error.message}`, { entry });
+          return;
+        }
+        this.logger.error(`Database unavailable, spooling audit log: ${error.message}`);
+      }
+    }
+
     try {
-      await this.prisma.auditLog.create({
-        data: {
-          action: input.action,
-          resource: input.resource,
-          resource_id: input.resourceId,
-          old_value: input.oldValue as any,
-          new_value: input.newValue as any,
-          performed_by_id: input.performedById,
-          ip_address: input.ipAddress,
-          user_agent: input.userAgent,
-        },
-      });
+      await this.spool.append(entry);
     } catch (error: any) {
       // Audit logging must never crash the main flow
-      this.logger.error(`Failed to write audit log: ${error.message}`, {
-        input,
-      });
+      this.logger.error(`Failed to spool audit log: ${error.message}`, { entry });
+    }
+  }
+
+  /** Entries spooled locally and not yet in the database (see /api/health). */
+  get pendingCount(): number {
+    return this.spool.size;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.spool.init();
+    if (this.spool.size > 0) {
+      this.logger.warn(`${this.spool.size} spooled audit entries waiting for replay`);
+    }
+  }
+
+  /** Replays spooled entries in order, stopping at the first failure. */
+  @Interval(SPOOL_REPLAY_INTERVAL_MS)
+  async replaySpool(): Promise<void> {
+    if (this.isReplaying || this.spool.size === 0) return;
+    this.isReplaying = true;
+
+    try {
+      for (;;) {
+        const batch = await this.spool.claim();
+        if (batch.length === 0) return;
+
+        let replayed = 0;
+        try {
+          for (const entry of batch) {
+            const existing = await this.prisma.auditLog.findUnique({
+              where: { id: entry.id },
+              select: { id: true },
+            });
+            if (!existing) {
+              try {
+                await this.append(entry);
+              } catch (error: any) {
+                if (isTransientDbError(error)) throw error;
+                // Would never succeed – drop it rather than block the spool
+                this.logger.error(`Dropping spooled audit entry: ${error.message}`, { entry });
+              }
+            }
+            replayed++;
+          }
+        } catch (error: any) {
+          this.logger.warn(`Audit spool replay paused: ${error.message}`);
+          return;
+        } finally {
+          await this.spool.settle(replayed, batch.slice(replayed));
+        }
+
+        this.logger.log(`Replayed ${replayed} spooled audit entries`);
+      }
+    } finally {
+      this.isReplaying = false;
     }
   }
 
@@ -62,4 +200,144 @@ export class AuditService {
       take: 100,
     });
   }
+
+  /**
+   * Filtered search with keyset pagination over (timestamp, id).
+   * Stable while new entries are appended, unlike offset paging.
+   */
+  async search(filters: AuditSearchFilters, cursor?: string, limit: number = 50) {
+    const rows = await this.prisma.auditLog.findMany({
+      where: this.buildWhere(filters, cursor),
+      orderBy: AUDIT_ORDER,
+      include: { performed_by: AUDIT_ACTOR_SELECT },
+      take: limit + 1,
+    });
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      // Pass back as `cursor` for the next (older) page
+      nextCursor: rows.length > limit && last ? this.encodeCursor(last.timestamp, last.id) : null,
+    };
+  }
+
+  /**
+   * Every matching entry, in batches, for streaming exports.
+   * Memory use stays flat however large the result.
+   */
+  async *iterate(filters: AuditSearchFilters, batchSize: number = 500) {
+    let cursor: string | undefined;
+
+    do {
+      const rows = await this.prisma.auditLog.findMany({
+        where: this.buildWhere(filters, cursor),
+        orderBy: AUDIT_ORDER,
+        include: { performed_by: AUDIT_ACTOR_SELECT },
+        take: batchSize,
+      });
+
+      yield* rows;
+
+      const last = rows[rows.length - 1];
+      cursor = rows.length === batchSize && last
+        ? this.encodeCursor(last.timestamp, last.id)
+        : undefined;
+    } while (cursor);
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /**
+   * Appends an entry to the hash chain. Appends are serialised with an
+   * advisory lock so every entry links to the one committed before it.
+   */
+  private async append(spooled: SpooledAuditEntry): Promise<void> {
+    const written = await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID}::bigint)`;
+
+      const previous = await tx.auditLog.findFirst({
+        where: { hash: { not: null } },
+        orderBy: { seq: 'desc' },
+        select: { hash: true },
+      });
+
+      const entry: ChainedAuditFields = {
+        ...spooled,
+        timestamp: new Date(spooled.timestamp),
+        prev_hash: previous?.hash ?? null,
+      };
+
+      await tx.auditLog.create({
+        data: {
+          ...entry,
+          old_value: (entry.old_value ?? Prisma.DbNull) as Prisma.InputJsonValue,
+          new_value: (entry.new_value ?? Prisma.DbNull) as Prisma.InputJsonValue,
+          hash: hashAuditEntry(entry),
+        },
+      });
+
+      return entry;
+    });
+
+    this.activity.publishAudit(written);
+  }
+
+  private buildWhere(filters: AuditSearchFilters, cursor?: string): Prisma.AuditLogWhereInput {
+    const and: Prisma.AuditLogWhereInput[] = [];
+
+    if (filters.actions?.length) and.push({ action: { in: filters.actions } });
+    if (filters.resource) and.push({ resource: filters.resource });
+    if (filters.resourceId) and.push({ resource_id: filters.resourceId });
+    if (filters.performedById) and.push({ performed_by_id: filters.performedById });
+    if (filters.ipAddress) and.push({ ip_address: filters.ipAddress });
+    if (filters.from) and.push({ timestamp: { gte: filters.from } });
+    if (filters.to) and.push({ timestamp: { lt: filters.to } });
+    if (filters.property) {
+      and.push({
+        OR: [
+          { property_id: filters.property.id },
+          { property_id: null, performed_by: { is: filters.property.staff } },
+        ],
+      });
+    }
+
+    if (cursor) {
+      const { timestamp, id } = this.decodeCursor(cursor);
+      and.push({
+        OR: [
+          { timestamp: { lt: timestamp } },
+          { timestamp, id: { lt: id } },
+        ],
+      });
+    }
+
+    return { AND: and };
+  }
+
+  private encodeCursor(timestamp: Date, id: string): string {
+    return Buffer.from(`${timestamp.toISOString()}|${id}`).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): { timestamp: Date; id: string } {
+    const [iso, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const timestamp = new Date(iso);
+    if (!id || !isUUID(id) || Number.isNaN(timestamp.getTime())) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    return { timestamp, id };
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Connection-level failures worth retrying, as opposed to a rejected entry. */
+function isTransientDbError(error: unknown): boolean {
+  if (error instanceof Prisma.PrismaClientInitializationError) return true;
+  if (error instanceof Prisma.PrismaClientRustPanicError) return true;
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return ['P1001', 'P1002', 'P1008', 'P1017', 'P2024', 'P2028'].includes(error.code);
+  }
+  return false;
 }
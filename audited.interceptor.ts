@@ -0,0 +1,122 @@
+/**
+ * BBH HMS – @Audited Decorator & Interceptor
+ * Declarative audit logging for controller routes.
+ *
+ * Usage:
+ *   @Audited({
+ *     action: 'CONFIG_UPDATE',
+ *     resource: 'GlobalConfig',
+ *     load: (prisma) => prisma.globalConfig.findFirst(),
+ *   })
+ *
+ * With `load`, the resource is snapshotted before and after the handler and
+ * only the changed fields are stored. Without it, the request body is stored
+ * as the new value. Sensitive fields are redacted (by AuditService, see
+ * audit-redact.ts), and nothing is logged when the handler throws.
+ *
+ * Events that happen inside a service stay manual AuditService.log() calls:
+ * auth (failed logins, lockouts, session revocation) and website updates
+ * record failures and outcomes the interceptor never sees.
+ */
+
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  SetMetadata,
+  UseInterceptors,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { from, Observable } from 'rxjs';
+import { mergeMap, switchMap } from 'rxjs/operators';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from './audit.service';
+import { diffChanges } from './audit-redact';
+import type { Snapshot } from './audit-redact';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AuditedOptions {
+  action: string;
+  resource: string;
+  /** Route param holding the resource id (default 'id'); falls back to the snapshot's `id`. */
+  idParam?: string;
+  /** Loads the resource so changes can be diffed. */
+  load?: (prisma: PrismaService, request: any) => Promise<object | null>;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const AUDITED_KEY = 'audited';
+
+// ─── Decorator ────────────────────────────────────────────────────────────────
+
+export const Audited = (options: AuditedOptions) =>
+  applyDecorators(
+    SetMetadata(AUDITED_KEY, options),
+    UseInterceptors(AuditedInterceptor),
+  );
+
+// ─── Interceptor ──────────────────────────────────────────────────────────────
+
+@Injectable()
+export class AuditedInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const options = this.reflector.get<AuditedOptions>(AUDITED_KEY, context.getHandler());
+    if (!options) return next.handle();
+
+    const request = context.switchToHttp().getRequest();
+
+    return from(this.snapshot(options, request)).pipe(
+      switchMap((before) =>
+        next.handle().pipe(
+          mergeMap(async (result) => {
+            const after = options.load
+              ? await this.snapshot(options, request)
+              : toSnapshot(request.body);
+            const changes = diffChanges(before, after);
+
+            // Nothing changed – nothing worth recording
+            if (options.load && !changes) return result;
+
+            await this.audit.log({
+              action: options.action,
+              resource: options.resource,
+              resourceId:
+                request.params?.[options.idParam ?? 'id'] ??
+                (after?.id as string | undefined) ??
+                (before?.id as string | undefined),
+              oldValue: changes?.oldValue,
+              newValue: changes?.newValue,
+              performedById: request.user?.id,
+              ipAddress: request.ip,
+              userAgent: request.headers?.['user-agent'],
+            });
+
+            return result;
+          }),
+        ),
+      ),
+    );
+  }
+
+  private async snapshot(options: AuditedOptions, request: any): Promise<Snapshot> {
+    return options.load ? toSnapshot(await options.load(this.prisma, request)) : null;
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** JSON round-trip so Dates and Decimals compare by value. */
+function toSnapshot(value: unknown): Snapshot {
+  if (value === null || value === undefined || typeof value !== 'object') return null;
+  return JSON.parse(JSON.stringify(value));
+}
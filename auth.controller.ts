@@ -1,29 +1,48 @@
 /**
  * BBH HMS – AuthController
- * Endpoints: POST /auth/login, POST /auth/logout, GET /auth/me
+ * Endpoints: POST /auth/login, POST /auth/pin-login, POST /auth/logout,
+ *            GET /auth/me, GET /auth/sessions, DELETE /auth/sessions/:id,
+ *            PUT /auth/pin, DELETE /auth/users/:id/pin,
+ *            POST /auth/users/:id/unlock
  */
 
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpCode,
   HttpStatus,
+  Param,
+  ParseUUIDPipe,
   Post,
+  Put,
   Req,
   Res,
   UseGuards,
 } from '@nestjs/common';
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { AuthService, LoginDto } from './auth.service';
+import { AuthService, LoginDto, PinLoginDto, SetPinDto } from './auth.service';
 import { AuthGuard } from './auth.guard';
+import { PermissionsGuard, RequirePermission } from './permissions.guard';
+import { PermissionsService } from './permissions.service';
 import { Public } from './decorators/public.decorator';
+import { AllowDuringMaintenance } from './decorators/allow-during-maintenance.decorator';
+import { TerminalAccess } from './decorators/terminal-access.decorator';
+import { AllowExpiredPassword } from './decorators/allow-expired-password.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
-import type { User } from '@prisma/client';
+import { CurrentProperty } from './decorators/current-property.decorator';
+import { PropertyService } from '../properties/property.service';
+import type { Property, User } from '@prisma/client';
 
 @Controller('auth')
+@AllowDuringMaintenance()
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly permissions: PermissionsService,
+    private readonly properties: PropertyService,
+  ) {}
 
   @Public()
   @Post('login')
@@ -34,6 +53,31 @@ export class AuthController {
     @Res({ passthrough: true }) reply: FastifyReply,
   ) {
     const result = await this.authService.login(dto, req, reply);
+    if (result.mfa) {
+      return {
+        message: 'Two-factor authentication required',
+        mfa: result.mfa,
+      };
+    }
+    return {
+      message: 'Login successful',
+      user: result.user,
+    };
+  }
+
+  /**
+   * PIN login for POS / kitchen terminals.
+   * Requires the device token in the X-Terminal-Token header.
+   */
+  @Public()
+  @Post('pin-login')
+  @HttpCode(HttpStatus.OK)
+  async pinLogin(
+    @Body() dto: PinLoginDto,
+    @Req() req: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
+    const result = await this.authService.pinLogin(dto, req, reply);
     return {
       message: 'Login successful',
       user: result.user,
@@ -43,6 +87,8 @@ export class AuthController {
   @Post('logout')
   @HttpCode(HttpStatus.OK)
   @UseGuards(AuthGuard)
+  @TerminalAccess()
+  @AllowExpiredPassword()
   async logout(@Req() req: FastifyRequest) {
     await this.authService.logout(req);
     return { message: 'Logged out successfully' };
@@ -50,7 +96,9 @@ export class AuthController {
 
   @Get('me')
   @UseGuards(AuthGuard)
-  me(@CurrentUser() user: User) {
+  @TerminalAccess()
+  @AllowExpiredPassword()
+  async me(@CurrentUser() user: User, @Req() req: FastifyRequest) {
     return {
       id: user.id,
       email: user.email,
@@ -59,6 +107,74 @@ export class AuthController {
       lastName: user.last_name,
       avatarUrl: user.avatar_url,
       lastLoginAt: user.last_login_at,
+      mfaEnabled: user.mfa_enabled,
+      passwordExpired: this.authService.isPasswordExpired(req),
+      permissions: await this.permissions.resolve(user), // Lets the admin UI hide actions
     };
   }
+
+  /** Active sessions of the current user, one per signed-in device. */
+  @Get('sessions')
+  @UseGuards(AuthGuard)
+  async sessions(@CurrentUser() user: User, @Req() req: FastifyRequest) {
+    return this.authService.listSessions(user.id, req.session.sessionId);
+  }
+
+  /** End one of the current user's sessions (e.g. a lost tablet). */
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  async revokeSession(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.authService.revokeSession(user.id, id, req);
+    return { message: 'Session revoked' };
+  }
+
+  /** Set or change the current user's POS PIN. */
+  @Put('pin')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  async setPin(
+    @CurrentUser() user: User,
+    @Body() dto: SetPinDto,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.authService.setPin(user, dto, req);
+    return { message: 'PIN updated' };
+  }
+
+  /** Clear a staff member's forgotten PIN. */
+  @Delete('users/:id/pin')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard, PermissionsGuard)
+  @RequirePermission('users:manage')
+  async resetPin(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.properties.assertInStaffScope(user, property, id);
+    await this.authService.resetPin(id, user.id, req.ip);
+    return { message: 'PIN reset' };
+  }
+
+  /** Lift a brute-force lockout before it expires on its own. */
+  @Post('users/:id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard, PermissionsGuard)
+  @RequirePermission('users:manage')
+  async unlock(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.properties.assertInStaffScope(user, property, id);
+    await this.authService.unlockAccount(id, user.id, req.ip);
+    return { message: 'Account unlocked' };
+  }
 }
@@ -2,22 +2,43 @@
  * BBH HMS – AuthGuard
  * Protects routes by verifying a valid Redis session exists.
  * Re-checks user.is_active on every request for instant revocation.
+ * Terminal (PIN) sessions may only reach routes marked @TerminalAccess().
+ * Sessions outside the user's shift access window are ended.
+ * Sessions with an expired password only reach @AllowExpiredPassword() routes.
+ * `Authorization: Bearer` API keys may only reach routes that declare
+ * @RequirePermission(); the key's owner becomes request.user. Keys limited to
+ * modules only reach routes marked @RequiresModule() for those modules, and
+ * only while the owner's shift access window is open.
+ * Every authenticated request is bound to a property (request.property);
+ * request.user.role is the user's role on that property.
  */
 
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import type { ModuleName, User } from '@prisma/client';
 import { AuthService } from './auth.service';
+import { ApiKeyService } from './api-key.service';
+import { AccessWindowService } from './access-window.service';
+import { PERMISSIONS_KEY } from './permissions.guard';
 import { IS_PUBLIC_KEY } from './decorators/public.decorator';
+import { TERMINAL_ACCESS_KEY } from './decorators/terminal-access.decorator';
+import { ALLOW_EXPIRED_PASSWORD_KEY } from './decorators/allow-expired-password.decorator';
+import { REQUIRED_MODULES_KEY } from '../modules/module.guard';
+import { PropertyService } from '../properties/property.service';
 
 @Injectable()
 export class AuthGuard implements CanActivate {
   constructor(
     private readonly authService: AuthService,
+    private readonly apiKeys: ApiKeyService,
+    private readonly accessWindows: AccessWindowService,
+    private readonly properties: PropertyService,
     private readonly reflector: Reflector,
   ) {}
 
@@ -30,16 +51,100 @@ export class AuthGuard implements CanActivate {
     if (isPublic) return true;
 
     const request = context.switchToHttp().getRequest();
+
+    const authorization: string | undefined = request.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return this.authenticateApiKey(context, request, authorization.slice(7).trim());
+    }
+
     const user = await this.authService.getSessionUser(request);
 
     if (!user) {
       throw new UnauthorizedException('Session expired or invalid');
     }
 
+    // Shifts are evaluated in the timezone of the property being accessed
+    const bound = await this.bindProperty(request, user);
+    if (!(await this.accessWindows.isAllowed(bound, request.property))) {
+      await this.authService.endSessionOutsideWindow(request, user);
+      throw new UnauthorizedException('Your access window has closed');
+    }
+
+    if (this.authService.getSessionScope(request) === 'terminal') {
+      const terminalAllowed = this.reflector.getAllAndOverride<boolean>(
+        TERMINAL_ACCESS_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (!terminalAllowed) {
+        throw new ForbiddenException('Not available from a terminal session');
+      }
+    }
+
+    if (this.authService.isPasswordExpired(request)) {
+      const expiredAllowed = this.reflector.getAllAndOverride<boolean>(
+        ALLOW_EXPIRED_PASSWORD_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (!expiredAllowed) {
+        throw new ForbiddenException('Your password has expired. Change it to continue.');
+      }
+    }
+
     // Attach full user to request for downstream use
-    request.user = user;
+    request.user = bound;
     return true;
   }
+
+  private async authenticateApiKey(
+    context: ExecutionContext,
+    request: any,
+    token: string,
+  ): Promise<boolean> {
+    const apiKey = await this.apiKeys.authenticate(token, request.ip);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    // Routes without explicit permissions (password change, MFA, sessions…)
+    // act on the owner's account and are never open to keys.
+    const required = this.reflector.getAllAndOverride<string[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required || required.length === 0) {
+      throw new ForbiddenException('Route not available to API keys');
+    }
+
+    if (apiKey.modules.length > 0) {
+      const modules = this.reflector.getAllAndOverride<ModuleName[]>(REQUIRED_MODULES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+      if (!modules?.length || !modules.every((module) => apiKey.modules.includes(module))) {
+        throw new ForbiddenException('API key is not allowed to access this module');
+      }
+    }
+
+    const owner = await this.bindProperty(request, apiKey.created_by);
+    if (!(await this.accessWindows.isAllowed(owner, request.property))) {
+      throw new ForbiddenException("API key owner's access window is closed");
+    }
+
+    request.user = owner;
+    request.apiKey = apiKey;
+    return true;
+  }
+
+  /** Resolves request.property and returns the user with their role on it. */
+  private async bindProperty(request: any, user: User): Promise<User> {
+    const { property, role } = await this.properties.resolveForUser(request, user);
+    if (!role) {
+      throw new ForbiddenException(`You do not have access to ${property.name}`);
+    }
+
+    request.property = property;
+    return role === user.role ? user : { ...user, role };
+  }
 }
 
 // ─── auth.guard.ts ────────────────────────────────────────────────────────────
@@ -8,13 +8,59 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { AuthGuard } from './auth.guard';
 import { RolesGuard } from './roles.guard';
+import { TerminalService } from './terminal.service';
+import { TerminalController } from './terminal.controller';
+import { MfaService } from './mfa.service';
+import { MfaController } from './mfa.controller';
+import { LoginThrottleService } from './login-throttle.service';
+import { PasswordService } from './password.service';
+import { PasswordController } from './password.controller';
+import { PermissionsService } from './permissions.service';
+import { PermissionsGuard } from './permissions.guard';
+import { PermissionsController } from './permissions.controller';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyController } from './api-key.controller';
+import { AccessWindowService } from './access-window.service';
+import { AccessWindowController } from './access-window.controller';
+import { PasswordPolicyService } from './password-policy.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuditModule } from '../audit/audit.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
-  imports: [PrismaModule, AuditModule],
-  providers: [AuthService, AuthGuard, RolesGuard],
-  controllers: [AuthController],
-  exports: [AuthService, AuthGuard, RolesGuard],
+  imports: [PrismaModule, AuditModule, MailModule],
+  providers: [
+    AuthService,
+    AuthGuard,
+    RolesGuard,
+    TerminalService,
+    MfaService,
+    LoginThrottleService,
+    PasswordService,
+    PermissionsService,
+    PermissionsGuard,
+    ApiKeyService,
+    AccessWindowService,
+    PasswordPolicyService,
+  ],
+  controllers: [
+    AuthController,
+    TerminalController,
+    MfaController,
+    PasswordController,
+    PermissionsController,
+    ApiKeyController,
+    AccessWindowController,
+  ],
+  exports: [
+    AuthService,
+    AuthGuard,
+    RolesGuard,
+    PermissionsGuard,
+    PermissionsService,
+    TerminalService,
+    PasswordService,
+    ApiKeyService,
+  ],
 })
 export class AuthModule {}
@@ -9,22 +9,66 @@ import {
   Injectable,
   UnauthorizedException,
   ForbiddenException,
+  NotFoundException,
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
+import { RedisService } from '../redis/redis.service';
+import { TerminalService, TERMINAL_TOKEN_HEADER } from './terminal.service';
+import { MfaService } from './mfa.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { AccessWindowService } from './access-window.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PropertyService } from '../properties/property.service';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { Role, User } from '@prisma/client';
+import { IsString, IsUUID, Length, Matches } from 'class-validator';
 import * as argon2 from 'argon2';
+import { createHash } from 'crypto';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Redis key prefix used by connect-redis for session payloads. */
+export const SESSION_KEY_PREFIX = 'sess:';
+
+/** Secondary index: user_sessions:<userId> → Set<sessionId> */
+const USER_SESSIONS_PREFIX = 'user_sessions:';
+
+/** Secondary index: terminal_sessions:<terminalId> → Set<sessionId> (PIN sessions) */
+const TERMINAL_SESSIONS_PREFIX = 'terminal_sessions:';
+
+/** PIN sessions expire quickly – the next staff member at the till re-enters theirs. */
+const PIN_SESSION_TTL_MS = 15 * 60 * 1000;
+
+/** Time allowed between password and second factor, and attempts within it. */
+const PENDING_MFA_TTL_MS = 5 * 60 * 1000;
+const PENDING_MFA_MAX_ATTEMPTS = 5;
+
+/** Throttle identifier for PIN logins, kept apart from the email login. */
+const pinAccount = (userId: string): string => `pin:${userId}`;
+
+/** Verified against when the user is unknown, so timing does not reveal it. */
+const DUMMY_HASH = '$argon2id$v=19$m=65536,t=3,p=4$placeholder$placeholder';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+/**
+ * full     – email/password login, all routes the role allows
+ * terminal – PIN login on a registered terminal, @TerminalAccess() routes only
+ */
+export type SessionScope = 'full' | 'terminal';
+
 export interface SessionUser {
   id: string;
   email: string;
   role: Role;
   firstName: string;
   lastName: string;
+  scope?: SessionScope;  // Absent on sessions created before scopes existed
+  terminalId?: string;
+  expiresAt?: string;    // ISO date; only set on short-lived sessions
+  passwordExpired?: boolean; // Forced rotation pending – see @AllowExpiredPassword()
 }
 
 export interface LoginDto {
@@ -32,9 +76,47 @@ export interface LoginDto {
   password: string;
 }
 
+export class PinLoginDto {
+  @IsUUID() userId!: string;
+  @Matches(/^\d{4,6}$/, { message: 'PIN must be 4-6 digits' }) pin!: string;
+}
+
+export class MfaCodeDto {
+  @IsString() @Length(6, 11) code!: string; // TOTP code or xxxxx-xxxxx recovery code
+}
+
+export class SetPinDto {
+  @Matches(/^\d{4,6}$/, { message: 'PIN must be 4-6 digits' }) pin!: string;
+  @IsString() currentPassword!: string;
+}
+
 export interface LoginResult {
-  user: SessionUser;
+  user?: SessionUser;    // Absent while a second factor is pending
   sessionId: string;
+  mfa?: 'required' | 'enrollment_required';
+}
+
+/** Stored in the session between password check and second factor. */
+interface PendingMfa {
+  userId: string;
+  enrollment: boolean;   // Role requires MFA but the user has not enrolled yet
+  expiresAt: string;
+  attempts: number;
+}
+
+/** Device details stored alongside the user in each session. */
+export interface SessionMeta {
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+}
+
+export interface ActiveSession {
+  id: string;        // Opaque handle – never the raw session id
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  current: boolean;
 }
 
 // ─── Service ──────────────────────────────────────────────────────────────────
@@ -46,11 +128,20 @@ export class AuthService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly audit: AuditService,
+    private readonly redis: RedisService,
+    private readonly terminals: TerminalService,
+    private readonly mfa: MfaService,
+    private readonly throttle: LoginThrottleService,
+    private readonly accessWindows: AccessWindowService,
+    private readonly passwordPolicy: PasswordPolicyService,
+    private readonly properties: PropertyService,
   ) {}
 
   /**
    * Validate credentials and create a Redis-backed session.
    * Throws UnauthorizedException on invalid creds or inactive account.
+   * Accounts with MFA (mandatory for OWNER/MANAGER) get a pending session
+   * that becomes a real one after verifyMfa() or MFA enrollment.
    */
   async login(
     dto: LoginDto,
@@ -59,6 +150,9 @@ export class AuthService {
   ): Promise<LoginResult> {
     const { email, password } = dto;
 
+    // 0. Brute-force protection (per account and per IP)
+    await this.throttle.assertAllowed(req.ip, email, reply);
+
     // 1. Find user
     const user = await this.prisma.user.findUnique({
       where: { email: email.toLowerCase().trim() },
@@ -66,10 +160,8 @@ export class AuthService {
 
     if (!user) {
       // Timing-safe: still run argon2 to prevent user enumeration
-      await argon2.verify(
-        '$argon2id$v=19$m=65536,t=3,p=4$placeholder$placeholder',
-        password,
-      ).catch(() => null);
+      await argon2.verify(DUMMY_HASH, password).catch(() => null);
+      await this.throttle.recordFailure(req.ip, email);
       throw new UnauthorizedException('Invalid credentials');
     }
 
@@ -88,39 +180,173 @@ export class AuthService {
         ipAddress: req.ip,
         userAgent: req.headers['user-agent'],
       });
+      await this.throttle.recordFailure(req.ip, email, user.id);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // 4. Build session payload
+    // 4. Shift access window
+    await this.assertWithinAccessWindow(user, req);
+
+    // 5. Second factor – hold a pending session until the code is verified
+    if (user.mfa_enabled || (await this.mfa.isRequiredFor(user))) {
+      return this.startPendingMfa(user, req);
+    }
+
+    // 6. Create the session (counters reset only once every factor has passed)
+    await this.throttle.recordSuccess(email);
+    return this.completeLogin(user, req);
+  }
+
+  /**
+   * Second login step: check a TOTP or recovery code against the pending
+   * session. Too many wrong codes discard it and the password is needed again.
+   */
+  async verifyMfa(code: string, req: FastifyRequest): Promise<LoginResult> {
+    const pending = this.getPendingMfa(req);
+    if (!pending || pending.enrollment) {
+      throw new UnauthorizedException('No pending two-factor login');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: pending.userId } });
+    if (!user || !user.is_active) {
+      throw new UnauthorizedException('No pending two-factor login');
+    }
+
+    // Wrong codes count against the account like wrong passwords, so a new
+    // pending login does not bring fresh attempts
+    await this.throttle.assertAllowed(req.ip, user.email);
+
+    if (!(await this.mfa.verify(user, code))) {
+      pending.attempts += 1;
+      (req.session as any).pendingMfa =
+        pending.attempts >= PENDING_MFA_MAX_ATTEMPTS ? undefined : pending;
+      await (req.session as any).save();
+
+      await this.audit.log({
+        action: 'USER_MFA_FAILED',
+        resource: 'User',
+        resourceId: user.id,
+        newValue: { attempts: pending.attempts },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+      await this.throttle.recordFailure(req.ip, user.email, user.id);
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    return this.finishPendingLogin(user, req);
+  }
+
+  /**
+   * Who may manage MFA on this request: a full session, or a pending login
+   * whose role requires MFA and has not enrolled yet.
+   */
+  async getMfaSubject(req: FastifyRequest): Promise<{ user: User; pending: boolean }> {
+    const sessionUser = await this.getSessionUser(req);
+    if (sessionUser && this.getSessionScope(req) === 'full') {
+      return { user: sessionUser, pending: false };
+    }
+
+    const pending = this.getPendingMfa(req);
+    if (pending?.enrollment) {
+      const user = await this.prisma.user.findUnique({ where: { id: pending.userId } });
+      if (user?.is_active) return { user, pending: true };
+    }
+
+    throw new UnauthorizedException('Session expired or invalid');
+  }
+
+  /** Turn a verified pending login into a full session. */
+  async finishPendingLogin(user: User, req: FastifyRequest): Promise<LoginResult> {
+    await this.throttle.recordSuccess(user.email);
+    (req.session as any).pendingMfa = undefined;
+    return this.completeLogin(user, req);
+  }
+
+  /**
+   * Quick login for POS / kitchen terminals.
+   * Only accepted with a valid terminal device token; creates a short-lived
+   * session limited to @TerminalAccess() routes.
+   */
+  async pinLogin(
+    dto: PinLoginDto,
+    req: FastifyRequest,
+    reply?: FastifyReply,
+  ): Promise<LoginResult> {
+    const terminal = await this.terminals.verifyToken(
+      req.headers[TERMINAL_TOKEN_HEADER] as string | undefined,
+    );
+
+    // A 4-digit PIN is trivial to guess without throttling
+    const account = pinAccount(dto.userId);
+    await this.throttle.assertAllowed(req.ip, account, reply);
+
+    const user = await this.prisma.user.findUnique({ where: { id: dto.userId } });
+
+    if (!user || !user.is_active || !user.pin_code) {
+      await argon2.verify(DUMMY_HASH, dto.pin).catch(() => null);
+      await this.throttle.recordFailure(req.ip, account);
+      throw new UnauthorizedException('Invalid PIN');
+    }
+
+    const isValid = await argon2.verify(user.pin_code, dto.pin);
+    if (!isValid) {
+      await this.audit.log({
+        action: 'USER_PIN_LOGIN_FAILED',
+        resource: 'User',
+        resourceId: user.id,
+        newValue: { terminalId: terminal.id },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+      await this.throttle.recordFailure(req.ip, account, user.id);
+      throw new UnauthorizedException('Invalid PIN');
+    }
+    await this.throttle.recordSuccess(account);
+
+    // Only staff of the terminal's own property may sign in on it
+    const property =
+      (await this.properties.list()).find((p) => p.id === terminal.property_id) ??
+      (await this.properties.getDefault());
+    if (!(await this.properties.roleFor(user, property))) {
+      throw new ForbiddenException(`You do not have access to ${property.name}`);
+    }
+    await this.assertWithinAccessWindow(user, req);
+
     const sessionUser: SessionUser = {
       id: user.id,
       email: user.email,
       role: user.role,
       firstName: user.first_name,
       lastName: user.last_name,
+      scope: 'terminal',
+      terminalId: terminal.id,
+      expiresAt: new Date(Date.now() + PIN_SESSION_TTL_MS).toISOString(),
     };
 
-    // 5. Attach to Fastify session (connect-redis handles persistence)
+    const meta: SessionMeta = {
+      ipAddress: req.ip,
+      userAgent: `${terminal.name} (terminal)`,
+      createdAt: new Date().toISOString(),
+    };
+    await this.regenerateSession(req);
     (req.session as any).user = sessionUser;
+    (req.session as any).meta = meta;
     await (req.session as any).save();
+    await this.indexSession(user.id, req.session.sessionId);
+    await this.indexTerminalSession(terminal.id, req.session.sessionId);
 
-    // 6. Update last_login_at
-    await this.prisma.user.update({
-      where: { id: user.id },
-      data: { last_login_at: new Date() },
-    });
-
-    // 7. Audit log
     await this.audit.log({
-      action: 'USER_LOGIN',
+      action: 'USER_PIN_LOGIN',
       resource: 'User',
       resourceId: user.id,
+      newValue: { terminalId: terminal.id, terminalName: terminal.name },
       performedById: user.id,
       ipAddress: req.ip,
       userAgent: req.headers['user-agent'],
     });
 
-    this.logger.log(`User ${user.email} (${user.role}) logged in from ${req.ip}`);
+    this.logger.log(`User ${user.email} PIN login on terminal "${terminal.name}"`);
 
     return { user: sessionUser, sessionId: req.session.sessionId };
   }
@@ -131,12 +357,15 @@ export class AuthService {
    */
   async logout(req: FastifyRequest): Promise<void> {
     const sessionUser = (req.session as any).user as SessionUser | undefined;
+    const sessionId = req.session.sessionId;
 
     await new Promise<void>((resolve, reject) =>
       req.session.destroy((err) => (err ? reject(err) : resolve())),
     );
 
     if (sessionUser) {
+      await this.redis.client.sRem(USER_SESSIONS_PREFIX + sessionUser.id, sessionId);
+
       await this.audit.log({
         action: 'USER_LOGOUT',
         resource: 'User',
@@ -149,31 +378,234 @@ export class AuthService {
     }
   }
 
+  /**
+   * End the current session because the user's access window has closed.
+   * Called by AuthGuard; the next request has to log in again.
+   */
+  async endSessionOutsideWindow(req: FastifyRequest, user: User): Promise<void> {
+    const sessionId = req.session.sessionId;
+
+    await new Promise<void>((resolve, reject) =>
+      req.session.destroy((err) => (err ? reject(err) : resolve())),
+    );
+    await this.redis.client.sRem(USER_SESSIONS_PREFIX + user.id, sessionId);
+
+    await this.audit.log({
+      action: 'USER_SESSION_ENDED',
+      resource: 'User',
+      resourceId: user.id,
+      newValue: { reason: 'outside_access_window' },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
   /**
    * Force-revoke all sessions for a specific user.
-   * Used when deactivating an account or changing a role.
-   * Iterates Redis keys matching the session prefix for that user id.
+   * Used when deactivating an account, changing a role or a password.
+   * Deletes every sess:<id> key listed in user_sessions:<userId>,
+   * except keepSessionId (the caller's own device on a password change).
    */
   async revokeAllSessionsForUser(
     targetUserId: string,
     performedById: string,
     ipAddress?: string,
+    keepSessionId?: string,
   ): Promise<void> {
-    // Session data is stored as: sess:<sessionId> → JSON({ user: { id, ... } })
-    // We can't scan by user-id directly without a secondary index.
-    // Strategy: mark the user inactive in DB (already done by caller) –
-    // the AuthGuard will reject requests since it re-validates is_active on each request.
-    // For immediate Redis purge, you'd maintain a Set: user_sessions:<userId> → [sessionId, ...]
-    // This is the recommended pattern when using connect-redis.
+    const indexKey = USER_SESSIONS_PREFIX + targetUserId;
+    const sessionIds = (await this.redis.client.sMembers(indexKey)).filter(
+      (id) => id !== keepSessionId,
+    );
+
+    if (sessionIds.length > 0) {
+      await this.redis.client.del(sessionIds.map((id) => SESSION_KEY_PREFIX + id));
+      await this.redis.client.sRem(indexKey, sessionIds);
+    }
 
     this.logger.warn(
-      `All sessions revoked for user ${targetUserId} by ${performedById}`,
+      `Sessions (${sessionIds.length}) revoked for user ${targetUserId} by ${performedById}`,
     );
 
     await this.audit.log({
       action: 'USER_SESSIONS_REVOKED',
       resource: 'User',
       resourceId: targetUserId,
+      newValue: { sessionsRevoked: sessionIds.length, keptCurrent: !!keepSessionId },
+      performedById,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Revoke the user's sessions if they signed in without a second factor.
+   * Used when a new property role makes MFA mandatory for them, so their
+   * next login goes through enrollment.
+   */
+  async revokeSessionsWithoutMfa(
+    targetUserId: string,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { mfa_enabled: true },
+    });
+    if (user && !user.mfa_enabled) {
+      await this.revokeAllSessionsForUser(targetUserId, performedById, ipAddress);
+    }
+  }
+
+  /**
+   * End every PIN session opened on a terminal. Called when the terminal is
+   * revoked, so staff logged in on it lose access at once.
+   */
+  async revokeTerminalSessions(terminalId: string): Promise<number> {
+    const indexKey = TERMINAL_SESSIONS_PREFIX + terminalId;
+    const sessionIds = await this.redis.client.sMembers(indexKey);
+
+    if (sessionIds.length > 0) {
+      await this.redis.client.del(sessionIds.map((id) => SESSION_KEY_PREFIX + id));
+    }
+    await this.redis.client.del(indexKey);
+
+    this.logger.warn(`Sessions (${sessionIds.length}) revoked for terminal ${terminalId}`);
+    return sessionIds.length;
+  }
+
+  /**
+   * List the live sessions of a user (one per device).
+   * Index entries whose Redis session has expired are pruned on the way.
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+    const indexKey = USER_SESSIONS_PREFIX + userId;
+    const sessionIds = await this.redis.client.sMembers(indexKey);
+    if (sessionIds.length === 0) return [];
+
+    const payloads = await this.redis.client.mGet(
+      sessionIds.map((id) => SESSION_KEY_PREFIX + id),
+    );
+
+    const sessions: ActiveSession[] = [];
+    const stale: string[] = [];
+
+    sessionIds.forEach((sessionId, i) => {
+      const raw = payloads[i];
+      if (!raw) {
+        stale.push(sessionId);
+        return;
+      }
+
+      const meta = (JSON.parse(raw).meta ?? {}) as Partial<SessionMeta>;
+      sessions.push({
+        id: this.sessionHandle(sessionId),
+        ipAddress: meta.ipAddress ?? null,
+        userAgent: meta.userAgent ?? null,
+        createdAt: meta.createdAt ?? null,
+        current: sessionId === currentSessionId,
+      });
+    });
+
+    if (stale.length > 0) await this.redis.client.sRem(indexKey, stale);
+
+    return sessions.sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+  }
+
+  /**
+   * End a single session of the given user, identified by its opaque handle.
+   * Throws NotFoundException if the handle does not belong to that user.
+   */
+  async revokeSession(
+    userId: string,
+    handle: string,
+    req: FastifyRequest,
+  ): Promise<void> {
+    const indexKey = USER_SESSIONS_PREFIX + userId;
+    const sessionIds = await this.redis.client.sMembers(indexKey);
+    const sessionId = sessionIds.find((id) => this.sessionHandle(id) === handle);
+
+    if (!sessionId) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.redis.client.del(SESSION_KEY_PREFIX + sessionId);
+    await this.redis.client.sRem(indexKey, sessionId);
+
+    await this.audit.log({
+      action: 'USER_SESSION_REVOKED',
+      resource: 'User',
+      resourceId: userId,
+      newValue: { session: handle },
+      performedById: userId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  /**
+   * Set or change the caller's own PIN. Requires the account password.
+   */
+  async setPin(user: User, dto: SetPinDto, req: FastifyRequest): Promise<void> {
+    const isValid = await argon2.verify(user.password_hash, dto.currentPassword);
+    if (!isValid) throw new UnauthorizedException('Invalid credentials');
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { pin_code: await this.hashPin(dto.pin) },
+    });
+
+    await this.audit.log({
+      action: user.pin_code ? 'USER_PIN_CHANGED' : 'USER_PIN_SET',
+      resource: 'User',
+      resourceId: user.id,
+      performedById: user.id,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  /**
+   * Clear another user's PIN (forgotten PIN). They must set a new one
+   * from a full session before using PIN login again.
+   */
+  async resetPin(
+    targetUserId: string,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<void> {
+    const target = await this.prisma.user.findUnique({ where: { id: targetUserId } });
+    if (!target) throw new NotFoundException('User not found');
+
+    await this.prisma.user.update({
+      where: { id: targetUserId },
+      data: { pin_code: null },
+    });
+
+    await this.audit.log({
+      action: 'USER_PIN_RESET',
+      resource: 'User',
+      resourceId: targetUserId,
+      performedById,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Lift a brute-force lockout on both the password and PIN login of a user.
+   */
+  async unlockAccount(
+    targetUserId: string,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<void> {
+    const target = await this.prisma.user.findUnique({ where: { id: targetUserId } });
+    if (!target) throw new NotFoundException('User not found');
+
+    await this.throttle.unlock([target.email, pinAccount(target.id)]);
+
+    await this.audit.log({
+      action: 'ACCOUNT_UNLOCKED',
+      resource: 'User',
+      resourceId: targetUserId,
       performedById,
       ipAddress,
     });
@@ -212,6 +644,10 @@ export class AuthService {
     const sessionUser = (req.session as any).user as SessionUser | undefined;
     if (!sessionUser?.id) return null;
 
+    if (sessionUser.expiresAt && new Date(sessionUser.expiresAt) <= new Date()) {
+      return null;
+    }
+
     const user = await this.prisma.user.findUnique({
       where: { id: sessionUser.id },
     });
@@ -219,4 +655,159 @@ export class AuthService {
     if (!user || !user.is_active) return null;
     return user;
   }
+
+  /** Scope of the current session; legacy sessions count as full. */
+  getSessionScope(req: FastifyRequest): SessionScope {
+    const sessionUser = (req.session as any).user as SessionUser | undefined;
+    return sessionUser?.scope ?? 'full';
+  }
+
+  isPasswordExpired(req: FastifyRequest): boolean {
+    return !!((req.session as any).user as SessionUser | undefined)?.passwordExpired;
+  }
+
+  /** Called after a successful password change in the current session. */
+  async clearPasswordExpired(req: FastifyRequest): Promise<void> {
+    const sessionUser = (req.session as any).user as SessionUser | undefined;
+    if (!sessionUser?.passwordExpired) return;
+
+    sessionUser.passwordExpired = false;
+    await (req.session as any).save();
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /** Create the full session once every login factor has passed. */
+  private async completeLogin(user: User, req: FastifyRequest): Promise<LoginResult> {
+    // 1. Build session payload
+    const sessionUser: SessionUser = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      scope: 'full',
+      passwordExpired: await this.passwordPolicy.isExpired(user),
+    };
+
+    // 2. Attach to Fastify session (connect-redis handles persistence)
+    const meta: SessionMeta = {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      createdAt: new Date().toISOString(),
+    };
+    await this.regenerateSession(req);
+    (req.session as any).user = sessionUser;
+    (req.session as any).meta = meta;
+    await (req.session as any).save();
+    await this.indexSession(user.id, req.session.sessionId);
+
+    // 3. Update last_login_at
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { last_login_at: new Date() },
+    });
+
+    // 4. Audit log
+    await this.audit.log({
+      action: 'USER_LOGIN',
+      resource: 'User',
+      resourceId: user.id,
+      newValue: { mfa: user.mfa_enabled },
+      performedById: user.id,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+
+    this.logger.log(`User ${user.email} (${user.role}) logged in from ${req.ip}`);
+
+    return { user: sessionUser, sessionId: req.session.sessionId };
+  }
+
+  /** Checked on the property the login is for, as AuthGuard does afterwards. */
+  private async assertWithinAccessWindow(user: User, req: FastifyRequest): Promise<void> {
+    const { property, role } = await this.properties.resolveForUser(req, user);
+    const actingAs = { id: user.id, role: role ?? user.role };
+    if (await this.accessWindows.isAllowed(actingAs, property)) return;
+
+    await this.audit.log({
+      action: 'USER_LOGIN_OUTSIDE_WINDOW',
+      resource: 'User',
+      resourceId: user.id,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+    throw new ForbiddenException('Login is not allowed outside your shift hours');
+  }
+
+  private async startPendingMfa(user: User, req: FastifyRequest): Promise<LoginResult> {
+    const pending: PendingMfa = {
+      userId: user.id,
+      enrollment: !user.mfa_enabled,
+      expiresAt: new Date(Date.now() + PENDING_MFA_TTL_MS).toISOString(),
+      attempts: 0,
+    };
+    (req.session as any).pendingMfa = pending;
+    await (req.session as any).save();
+
+    return {
+      sessionId: req.session.sessionId,
+      mfa: pending.enrollment ? 'enrollment_required' : 'required',
+    };
+  }
+
+  private getPendingMfa(req: FastifyRequest): PendingMfa | null {
+    const pending = (req.session as any).pendingMfa as PendingMfa | undefined;
+    if (!pending || new Date(pending.expiresAt) <= new Date()) return null;
+    return pending;
+  }
+
+  /** Add a session to the user's index and drop entries that have expired. */
+  /**
+   * Issue a new session id before a login writes its user, so an id planted
+   * in the browser beforehand (session fixation) never becomes authenticated.
+   * The old id is deleted and dropped from its previous owner's indexes.
+   */
+  private async regenerateSession(req: FastifyRequest): Promise<void> {
+    const previousId = req.session.sessionId;
+    const previous = (req.session as any).user as SessionUser | undefined;
+
+    await new Promise<void>((resolve, reject) =>
+      (req.session as any).regenerate((err?: Error) => (err ? reject(err) : resolve())),
+    );
+
+    await this.redis.client.del(SESSION_KEY_PREFIX + previousId);
+    if (previous?.id) {
+      await this.redis.client.sRem(USER_SESSIONS_PREFIX + previous.id, previousId);
+    }
+    if (previous?.terminalId) {
+      await this.redis.client.sRem(TERMINAL_SESSIONS_PREFIX + previous.terminalId, previousId);
+    }
+  }
+
+  private async indexSession(userId: string, sessionId: string): Promise<void> {
+    const indexKey = USER_SESSIONS_PREFIX + userId;
+    await this.redis.client.sAdd(indexKey, sessionId);
+
+    const sessionIds = await this.redis.client.sMembers(indexKey);
+    const exists = await Promise.all(
+      sessionIds.map((id) => this.redis.client.exists(SESSION_KEY_PREFIX + id)),
+    );
+    const stale = sessionIds.filter((_, i) => exists[i] === 0);
+    if (stale.length > 0) await this.redis.client.sRem(indexKey, stale);
+  }
+
+  /** PIN sessions live at most PIN_SESSION_TTL_MS, so the index expires with the newest one. */
+  private async indexTerminalSession(terminalId: string, sessionId: string): Promise<void> {
+    const indexKey = TERMINAL_SESSIONS_PREFIX + terminalId;
+    await this.redis.client.sAdd(indexKey, sessionId);
+    await this.redis.client.pExpire(indexKey, PIN_SESSION_TTL_MS);
+  }
+
+  /**
+   * Session ids are bearer secrets, so the API exposes a hash of them instead.
+   */
+  private sessionHandle(sessionId: string): string {
+    return createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+  }
 }
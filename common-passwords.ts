@@ -0,0 +1,79 @@
+/**
+ * BBH HMS – Bundled Password Blocklist
+ * The most common passwords from public breach corpora, plus hotel-specific
+ * guesses. Compared case-insensitively, both as typed and by their base
+ * (passwordBase), so "P@ssw0rd2024!" is caught through "password". For a
+ * larger list, point PASSWORD_BLOCKLIST_FILE at a newline-separated file
+ * (read once at startup).
+ */
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Shorter bases ("abc", "pos") would reject too many unrelated passwords. */
+export const BASE_MIN_LENGTH = 4;
+
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i',
+};
+
+export const COMMON_PASSWORDS: readonly string[] = [
+  // ── Breach corpus top entries ──────────────────────────────────────────────
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '1234',
+  '111111', '000000', '123123', '654321', '666666', '121212', '7777777',
+  '112233', '123321', '987654321', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx',
+  'qwerty', 'qwerty123', 'qwertyuiop', 'qwerty1', 'qazwsx', 'asdfgh',
+  'asdfghjkl', 'zxcvbnm', 'zxcvbn', '1qazxsw2', 'qweasdzxc', 'q1w2e3r4',
+  'password', 'password1', 'password12', 'password123', 'passw0rd', 'p@ssw0rd',
+  'p@ssword', 'pass1234', 'password!', 'password1!', 'changeme', 'changeme123',
+  'welcome', 'welcome1', 'welcome123', 'welcome2024', 'welcome2025', 'welcome2026',
+  'letmein', 'letmein1', 'admin', 'admin123', 'admin1234', 'administrator',
+  'root', 'toor', 'master', 'secret', 'login', 'guest', 'test', 'test123',
+  'abc123', 'abcd1234', 'abcdef', 'iloveyou', 'princess', 'sunshine',
+  'football', 'baseball', 'soccer', 'monkey', 'dragon', 'shadow', 'superman',
+  'batman', 'trustno1', 'michael', 'jennifer', 'jordan', 'hunter', 'hunter2',
+  'freedom', 'whatever', 'starwars', 'pokemon', 'computer', 'internet',
+  'charlie', 'daniel', 'jessica', 'ashley', 'bailey', 'buster', 'ginger',
+  'cookie', 'summer', 'winter', 'spring', 'autumn', 'flower', 'hello',
+  'hello123', 'loveme', 'lovely', 'mustang', 'harley', 'ranger', 'thomas',
+  'robert', 'matthew', 'andrew', 'joshua', 'maggie', 'chelsea', 'liverpool',
+  'arsenal', 'chocolate', 'banana', 'orange', 'purple', 'killer', 'pepper',
+  'access', 'access14', 'zaq12wsx', 'aa123456', 'a123456', 'a1b2c3d4',
+  'qwe123', 'asd123', 'zxc123', '11111111', '00000000', '88888888',
+  '12341234', '123qwe', 'qwer1234', 'default', 'temp1234', 'temporary',
+  'summer2024', 'summer2025', 'summer2026', 'winter2024', 'winter2025',
+  'spring2025', 'spring2026', 'january', 'december',
+
+  // ── Hotel / hospitality guesses ───────────────────────────────────────────
+  'hotel', 'hotel123', 'hotel1234', 'hotel2024', 'hotel2025', 'hotel2026',
+  'reception', 'reception1', 'frontdesk', 'frontdesk1', 'manager', 'manager1',
+  'manager123', 'kitchen', 'kitchen1', 'kitchen123', 'restaurant', 'housekeeping',
+  'maintenance', 'booking', 'booking123', 'checkin', 'checkout', 'roomservice',
+  'concierge', 'lobby', 'suite', 'bbh', 'bbhhotel', 'bbhhms', 'bbh123',
+  'bbhhotel123', 'owner', 'owner123', 'staff', 'staff123', 'pos', 'pos1234',
+
+  // ── Breach corpus entries long enough to pass the length rule ─────────────
+  '123456789012', '1234567890123', '12345678901234', '123456789123',
+  '123123123123', '111111111111', '000000000000', '121212121212',
+  '1q2w3e4r5t6y', '1qaz2wsx3edc', 'q1w2e3r4t5y6', '1qaz2wsx3edc4rfv',
+  'qazwsxedcrfv', 'zaq12wsxcde3', 'zaq1zaq1zaq1', 'qwertyqwerty',
+  'qwertyuiop123', 'qwertyuiopasdfghjkl', 'qwertyuiopasdfghjklzxcvbnm',
+  'asdfghjkl123', 'qweasdzxc123', 'qwer1234asdf', '1234qwerasdf',
+  'qwerty123456', '123456qwerty', 'abcdef123456', '123456abcdef',
+  'abc123abc123', 'abcd1234abcd', 'abcdefghijkl', 'aaaaaaaaaaaa',
+  'passwordpassword', 'password1234', 'password12345', 'password123456',
+  'iloveyouiloveyou', 'letmeinletmein', 'welcomewelcome', 'changemechangeme',
+  'administrator1', 'administrator123', 'trustno1trustno1',
+];
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * The word a password is built on: lower case, trailing digits and symbols
+ * removed, leetspeak folded back into letters ("Hot3l2025!" → "hotel").
+ */
+export function passwordBase(password: string): string {
+  return password
+    .toLowerCase()
+    .replace(/[\d\W_]+$/, '')
+    .replace(/[013457@$!]/g, (char) => LEET[char]);
+}
@@ -0,0 +1,174 @@
+/**
+ * BBH HMS – Config Locales
+ * Guest-facing text in GlobalConfig (tagline, address, website footer) can be
+ * translated per locale.
+ *
+ * The columns themselves hold the default locale's text; `translations` holds
+ * the other locales, e.g. { "fr": { "tagline": "…" } }. A missing translation
+ * falls back to the default locale, field by field.
+ */
+
+import { plainToInstance } from 'class-transformer';
+import { IsOptional, IsString, MaxLength, validateSync } from 'class-validator';
+import type { GlobalConfig } from '@prisma/client';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const TRANSLATABLE_FIELDS = ['tagline', 'address', 'website_footer'] as const;
+
+export type TranslatableField = (typeof TRANSLATABLE_FIELDS)[number];
+
+export type LocalizedContent = Partial<Record<TranslatableField, string>>;
+
+export type ConfigTranslations = Record<string, LocalizedContent>;
+
+export interface LocaleFieldError {
+  field: string;
+  messages: string[];
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+/** Language, optional script and region, e.g. "en", "pt-BR", "zh-Hant-TW". */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z][a-z]{3})?(-([A-Z]{2}|\d{3}))?$/;
+
+export const MAX_LOCALES = 20;
+
+/** Same limits as the matching UpdateConfigDto columns. */
+class LocalizedContentSchema {
+  @IsOptional() @IsString() @MaxLength(255) tagline?: string;
+  @IsOptional() @IsString() @MaxLength(500) address?: string;
+  @IsOptional() @IsString() @MaxLength(500) website_footer?: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Errors in a config's locale settings once changes are applied: the default
+ * locale must be supported, and translations may only cover other supported
+ * locales. Empty when they are consistent.
+ */
+export function validateLocaleSettings(
+  config: Pick<GlobalConfig, 'default_locale' | 'supported_locales' | 'translations'>,
+): LocaleFieldError[] {
+  const errors: LocaleFieldError[] = [];
+  const supported = config.supported_locales;
+
+  if (!supported.includes(config.default_locale)) {
+    errors.push({
+      field: 'default_locale',
+      messages: [`default_locale "${config.default_locale}" is not in supported_locales`],
+    });
+  }
+
+  const translations = config.translations;
+  if (!isPlainObject(translations)) {
+    return [...errors, { field: 'translations', messages: ['translations must be an object'] }];
+  }
+
+  for (const [locale, content] of Object.entries(translations)) {
+    const field = `translations.${locale}`;
+    if (!supported.includes(locale)) {
+      errors.push({ field, messages: [`"${locale}" is not in supported_locales`] });
+      continue;
+    }
+    if (locale === config.default_locale) {
+      errors.push({
+        field,
+        messages: ['the default locale is edited through the tagline, address and website_footer fields'],
+      });
+      continue;
+    }
+    if (!isPlainObject(content)) {
+      errors.push({ field, messages: [`${field} must be an object`] });
+      continue;
+    }
+
+    const invalid = validateSync(plainToInstance(LocalizedContentSchema, content), {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    for (const error of invalid) {
+      errors.push({
+        field: `${field}.${error.property}`,
+        messages: Object.values(error.constraints ?? {}),
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The supported locale to answer with: `?locale=` first, then the
+ * Accept-Language preferences by quality, then the default locale. A
+ * region-specific request ("fr-CA") also matches its language ("fr").
+ */
+export function negotiateLocale(
+  supported: string[],
+  defaultLocale: string,
+  requested?: string,
+  acceptLanguage?: string,
+): string {
+  const candidates = [
+    ...(requested ? [requested] : []),
+    ...parseAcceptLanguage(acceptLanguage),
+  ];
+
+  for (const candidate of candidates) {
+    const match = matchLocale(supported, candidate);
+    if (match) return match;
+  }
+  return defaultLocale;
+}
+
+/** The translatable fields in `locale`, each falling back to the default locale. */
+export function localizeConfig(
+  config: Pick<GlobalConfig, TranslatableField | 'translations'>,
+  locale: string,
+): Record<TranslatableField, string | null> {
+  const translations = isPlainObject(config.translations)
+    ? (config.translations as ConfigTranslations)
+    : {};
+  const localized = translations[locale] ?? {};
+
+  return Object.fromEntries(
+    TRANSLATABLE_FIELDS.map((field) => [field, localized[field] || config[field] || null]),
+  ) as Record<TranslatableField, string | null>;
+}
+
+function matchLocale(supported: string[], candidate: string): string | null {
+  const wanted = candidate.trim().toLowerCase();
+  if (!wanted || wanted === '*') return null;
+
+  const exact = supported.find((locale) => locale.toLowerCase() === wanted);
+  if (exact) return exact;
+
+  const language = wanted.split('-')[0];
+  return (
+    supported.find((locale) => locale.toLowerCase() === language) ??
+    supported.find((locale) => locale.toLowerCase().split('-')[0] === language) ??
+    null
+  );
+}
+
+/** Language ranges from an Accept-Language header, most preferred first. */
+function parseAcceptLanguage(header?: string): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [range, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      const quality = q ? parseFloat(q.slice(2)) : 1;
+      return { range: range.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter((entry) => entry.range && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((entry) => entry.range);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,101 @@
+/**
+ * BBH HMS – ConfigLogoService
+ * Hotel logos uploaded through POST /admin/config/logo, stored in bbh-public
+ * under logos/<property slug>/ and set as logo_url through a new config
+ * revision.
+ *
+ * Replaced logos are kept: every published revision snapshot refers to the
+ * logo of its time, so rolling back always restores a working one. Only
+ * files nothing refers to – uploads whose revision failed – are deleted, by
+ * the daily sweep.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import type { GlobalConfig, Property } from '@prisma/client';
+import { PrismaService } from '../../../libs/prisma/prisma.service';
+import { StorageService, BUCKET_PUBLIC } from '../../../libs/storage/storage.service';
+import type { ImageUpload } from '../../../libs/storage/image-upload';
+import { ConfigRevisionService } from './config-revision.service';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+
+const LOGO_PREFIX = 'logos/';
+
+/** Leaves files alone while their upload may still be committing its revision. */
+const SWEEP_MIN_AGE_MS = 60 * 60 * 1000;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class ConfigLogoService {
+  private readonly logger = new Logger(ConfigLogoService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly revisions: ConfigRevisionService,
+  ) {}
+
+  /** Stores the image and makes it the property's logo as a new config version. */
+  async upload(property: Property, upload: ImageUpload, performedById: string): Promise<GlobalConfig> {
+    const file = await this.storage.uploadFile(
+      upload.buffer,
+      upload.mimeType,
+      BUCKET_PUBLIC,
+      `${LOGO_PREFIX}${property.slug}/`,
+      upload.fileName,
+    );
+    const logoPath = `${file.bucket}/${file.key}`;
+
+    const { config } = await this.revisions
+      .apply(property.id, { logo_url: logoPath }, performedById, 'update')
+      .catch(async (err) => {
+        await this.storage.deleteByPath(logoPath).catch(() => undefined);
+        throw err;
+      });
+
+    return config;
+  }
+
+  /** Deletes logo files that nothing refers to (uploads whose revision failed). */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async sweepUnusedLogos(): Promise<void> {
+    try {
+      const cutoff = Date.now() - SWEEP_MIN_AGE_MS;
+      const files = await this.storage.listFiles(BUCKET_PUBLIC, LOGO_PREFIX);
+
+      let deleted = 0;
+      for (const file of files) {
+        if (file.lastModified.getTime() > cutoff) continue;
+        const logoPath = `${BUCKET_PUBLIC}/${file.key}`;
+        if (await this.isReferenced(logoPath)) continue;
+
+        await this.storage.deleteFile(BUCKET_PUBLIC, file.key);
+        deleted++;
+      }
+      if (deleted > 0) this.logger.log(`Deleted ${deleted} unused logo file(s)`);
+    } catch (error: any) {
+      this.logger.error(`Logo sweep failed: ${error.message}`);
+    }
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async isReferenced(logoPath: string): Promise<boolean> {
+    const [configs, revisions] = await Promise.all([
+      this.prisma.globalConfig.count({ where: { logo_url: logoPath } }),
+      this.prisma.configRevision.count({
+        where: {
+          OR: [
+            { snapshot: { path: ['logo_url'], equals: logoPath } },
+            { changes: { path: ['logo_url'], equals: logoPath } },
+          ],
+        },
+      }),
+    ]);
+    return configs + revisions > 0;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * BBH HMS – Config Revisions Controller
+ * /api/admin/config/revisions – GlobalConfig version history, diffs and rollback.
+ * /api/admin/config/drafts    – staged changes, published later.
+ * Both act on the current property.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import type { Property, User } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import { UpdateConfigDto } from './config.controller';
+import { ConfigRevisionService } from './config-revision.service';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export class RevisionListQueryDto {
+  @IsOptional() @IsInt() @Min(1) @Max(200) limit?: number;
+  @IsOptional() @IsInt() @Min(1) beforeVersion?: number;
+}
+
+export class RevisionDiffQueryDto {
+  @IsInt() @Min(1) from!: number;
+  @IsInt() @Min(1) to!: number;
+}
+
+export class ConfigDraftDto {
+  @ValidateNested() @Type(() => UpdateConfigDto) changes!: UpdateConfigDto;
+  @IsOptional() @IsString() @MaxLength(500) note?: string;
+}
+
+// ─── Controller ───────────────────────────────────────────────────────────────
+
+@Controller('admin/config')
+@UseGuards(AuthGuard, PermissionsGuard)
+export class ConfigRevisionController {
+  constructor(private readonly revisions: ConfigRevisionService) {}
+
+  @Get('revisions')
+  @RequirePermission('config:read')
+  async list(@Query() query: RevisionListQueryDto, @CurrentProperty() property: Property) {
+    return this.revisions.list(property.id, query.limit, query.beforeVersion);
+  }
+
+  /** Changes going from version `from` to version `to`, field by field. */
+  @Get('revisions/diff')
+  @RequirePermission('config:read')
+  async diff(@Query() query: RevisionDiffQueryDto, @CurrentProperty() property: Property) {
+    return this.revisions.diff(property.id, query.from, query.to);
+  }
+
+  @Get('revisions/:version')
+  @RequirePermission('config:read')
+  async get(
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentProperty() property: Property,
+  ) {
+    return this.revisions.get(property.id, version);
+  }
+
+  /** Restores a version's settings; recorded as a new version. */
+  @Post('revisions/:version/rollback')
+  @RequirePermission('config:update')
+  @HttpCode(HttpStatus.OK)
+  async rollback(
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentProperty() property: Property,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.revisions.rollback(property.id, version, user.id, req.ip);
+  }
+
+  @Get('drafts')
+  @RequirePermission('config:read')
+  async listDrafts(@CurrentProperty() property: Property) {
+    return this.revisions.listDrafts(property.id);
+  }
+
+  @Post('drafts')
+  @RequirePermission('config:update')
+  async createDraft(
+    @Body() dto: ConfigDraftDto,
+    @CurrentProperty() property: Property,
+    @CurrentUser() user: User,
+  ) {
+    return this.revisions.createDraft(property.id, dto.changes, user.id, dto.note);
+  }
+
+  @Patch('drafts/:id')
+  @RequirePermission('config:update')
+  async updateDraft(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ConfigDraftDto,
+    @CurrentProperty() property: Property,
+  ) {
+    return this.revisions.updateDraft(property.id, id, dto.changes, dto.note);
+  }
+
+  /** Applies the staged fields on top of the current config. */
+  @Post('drafts/:id/publish')
+  @RequirePermission('config:update')
+  @HttpCode(HttpStatus.OK)
+  async publishDraft(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentProperty() property: Property,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.revisions.publishDraft(property.id, id, user.id, req.ip);
+  }
+
+  @Delete('drafts/:id')
+  @RequirePermission('config:update')
+  @HttpCode(HttpStatus.OK)
+  async discardDraft(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentProperty() property: Property,
+  ) {
+    await this.revisions.discardDraft(property.id, id);
+    return { message: 'Draft discarded' };
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * BBH HMS – ConfigRevisionService
+ * Version history for each property's GlobalConfig row; versions are
+ * numbered per property.
+ *
+ * Every change is applied through apply(), which updates the row and records
+ * a numbered revision holding the full set of editable fields, in one
+ * transaction. The existing config becomes version 1 the first time it
+ * changes. Rollback re-applies an old snapshot as a new revision, so history
+ * only ever grows. Drafts stage changes without applying them; publishing
+ * applies them on top of whatever is current then.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigRevisionStatus, Prisma } from '@prisma/client';
+import type { ConfigRevision, GlobalConfig } from '@prisma/client';
+import { PrismaService } from '../../../libs/prisma/prisma.service';
+import { AuditService } from '../../../libs/audit/audit.service';
+import { PublicConfigCache } from '../../../libs/properties/public-config-cache.service';
+import { validateLocaleSettings } from './config-locale';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The GlobalConfig columns that admins edit and revisions track. */
+export const CONFIG_FIELDS = [
+  'hotel_name',
+  'logo_url',
+  'primary_color',
+  'accent_color',
+  'currency',
+  'timezone',
+  'maintenance_mode',
+  'maintenance_message',
+  'tagline',
+  'address',
+  'phone',
+  'email',
+  'website_footer',
+  'default_locale',
+  'supported_locales',
+  'translations',
+] as const;
+
+export type ConfigField = (typeof CONFIG_FIELDS)[number];
+
+export type ConfigSnapshot = Pick<GlobalConfig, ConfigField>;
+
+export type ConfigChanges = Partial<ConfigSnapshot>;
+
+export type RevisionSource = 'initial' | 'update' | 'rollback' | 'draft';
+
+export interface ConfigFieldChange {
+  field: ConfigField;
+  from: unknown;
+  to: unknown;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** pg_advisory_xact_lock key serialising version numbers. */
+const CONFIG_REVISION_LOCK_ID = 0x42424843; // "BBHC"
+
+const REVISION_SUMMARY_SELECT = Prisma.validator<Prisma.ConfigRevisionSelect>()({
+  id: true,
+  version: true,
+  source: true,
+  changes: true,
+  restored_version: true,
+  note: true,
+  created_by_id: true,
+  created_at: true,
+  published_at: true,
+});
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class ConfigRevisionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly publicConfig: PublicConfigCache,
+  ) {}
+
+  /**
+   * Applies `changes` to GlobalConfig and records the result as the next
+   * version. Returns the revision as null when nothing actually changed.
+   */
+  async apply(
+    propertyId: string,
+    changes: ConfigChanges,
+    performedById: string | undefined,
+    source: RevisionSource,
+    options: { restoredVersion?: number; draftId?: string; note?: string } = {},
+  ): Promise<{ config: GlobalConfig; revision: ConfigRevision | null; changes: ConfigFieldChange[] }> {
+    const result = await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CONFIG_REVISION_LOCK_ID}::bigint)`;
+
+      const current = await tx.globalConfig.findUnique({ where: { property_id: propertyId } });
+      if (!current) throw new NotFoundException('Hotel configuration not found');
+
+      const picked = pickConfigFields(changes);
+      const localeErrors = validateLocaleSettings({ ...current, ...picked });
+      if (localeErrors.length > 0) {
+        throw new BadRequestException({
+          statusCode: 400,
+          error: 'InvalidLocaleConfig',
+          message: 'Invalid locale settings',
+          errors: localeErrors,
+        });
+      }
+
+      const head = await tx.configRevision.findFirst({
+        where: { property_id: propertyId, status: ConfigRevisionStatus.PUBLISHED },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      let version = head?.version ?? 0;
+
+      // History starts with the config as it was before the first tracked change
+      if (!head) {
+        await tx.configRevision.create({
+          data: {
+            property_id: propertyId,
+            version: ++version,
+            source: 'initial',
+            snapshot: toSnapshot(current) as Prisma.InputJsonValue,
+            changes: {},
+            published_at: current.updated_at,
+          },
+        });
+      }
+
+      const config = await tx.globalConfig.update({
+        where: { id: current.id },
+        data: picked as Prisma.GlobalConfigUncheckedUpdateInput,
+      });
+
+      const changed = diffSnapshots(toSnapshot(current), toSnapshot(config));
+      if (changed.length === 0) return { config, revision: null, changes: changed };
+
+      const data = {
+        property_id: propertyId,
+        version: version + 1,
+        status: ConfigRevisionStatus.PUBLISHED,
+        source,
+        snapshot: toSnapshot(config) as Prisma.InputJsonValue,
+        changes: changed as unknown as Prisma.InputJsonValue,
+        restored_version: options.restoredVersion,
+        published_at: new Date(),
+      };
+
+      const revision = options.draftId
+        ? await tx.configRevision.update({ where: { id: options.draftId }, data })
+        : await tx.configRevision.create({
+            data: { ...data, note: options.note, created_by_id: performedById },
+          });
+
+      return { config, revision, changes: changed };
+    });
+
+    if (result.revision) await this.publicConfig.invalidate(propertyId);
+    return result;
+  }
+
+  /** Published versions, newest first, without the full snapshots. */
+  async list(propertyId: string, limit = 50, beforeVersion?: number) {
+    return this.prisma.configRevision.findMany({
+      where: {
+        property_id: propertyId,
+        status: ConfigRevisionStatus.PUBLISHED,
+        ...(beforeVersion !== undefined ? { version: { lt: beforeVersion } } : {}),
+      },
+      orderBy: { version: 'desc' },
+      take: limit,
+      select: REVISION_SUMMARY_SELECT,
+    });
+  }
+
+  async get(propertyId: string, version: number): Promise<ConfigRevision> {
+    const revision = await this.prisma.configRevision.findUnique({
+      where: { property_id_version: { property_id: propertyId, version } },
+    });
+    if (!revision) throw new NotFoundException(`Config version ${version} not found`);
+    return revision;
+  }
+
+  /** Field-by-field differences going from version `from` to version `to`. */
+  async diff(propertyId: string, from: number, to: number) {
+    const [a, b] = await Promise.all([this.get(propertyId, from), this.get(propertyId, to)]);
+    return {
+      from,
+      to,
+      changes: diffSnapshots(
+        a.snapshot as unknown as ConfigSnapshot,
+        b.snapshot as unknown as ConfigSnapshot,
+      ),
+    };
+  }
+
+  /** Re-applies an old version's snapshot as a new version. */
+  async rollback(propertyId: string, version: number, performedById: string, ipAddress?: string) {
+    const target = await this.get(propertyId, version);
+    const snapshot = pickConfigFields(target.snapshot as unknown as ConfigChanges);
+
+    const result = await this.apply(propertyId, snapshot, performedById, 'rollback', {
+      restoredVersion: version,
+    });
+    if (!result.revision) {
+      throw new ConflictException(`The configuration already matches version ${version}`);
+    }
+
+    await this.audit.log({
+      action: 'CONFIG_ROLLBACK',
+      resource: 'GlobalConfig',
+      resourceId: result.config.id,
+      oldValue: changeValues(result.changes, 'from'),
+      newValue: {
+        ...changeValues(result.changes, 'to'),
+        restoredVersion: version,
+        version: result.revision.version,
+      },
+      performedById,
+      ipAddress,
+    });
+
+    return result.revision;
+  }
+
+  // ── Drafts ─────────────────────────────────────────────────────────────────
+
+  async listDrafts(propertyId: string) {
+    return this.prisma.configRevision.findMany({
+      where: { property_id: propertyId, status: ConfigRevisionStatus.DRAFT },
+      orderBy: { created_at: 'desc' },
+    });
+  }
+
+  async createDraft(
+    propertyId: string,
+    changes: ConfigChanges,
+    performedById: string,
+    note?: string,
+  ) {
+    return this.prisma.configRevision.create({
+      data: {
+        property_id: propertyId,
+        status: ConfigRevisionStatus.DRAFT,
+        source: 'draft',
+        changes: pickConfigFields(changes) as Prisma.InputJsonValue,
+        note,
+        created_by_id: performedById,
+      },
+    });
+  }
+
+  /** Replaces the staged fields of a draft. */
+  async updateDraft(propertyId: string, id: string, changes: ConfigChanges, note?: string) {
+    await this.findDraft(propertyId, id);
+    return this.prisma.configRevision.update({
+      where: { id },
+      data: {
+        changes: pickConfigFields(changes) as Prisma.InputJsonValue,
+        ...(note !== undefined ? { note } : {}),
+      },
+    });
+  }
+
+  async publishDraft(propertyId: string, id: string, performedById: string, ipAddress?: string) {
+    const draft = await this.findDraft(propertyId, id);
+    const staged = draft.changes as unknown as ConfigChanges;
+    if (Object.keys(staged).length === 0) {
+      throw new BadRequestException('Draft has no changes');
+    }
+
+    const result = await this.apply(propertyId, staged, performedById, 'draft', {
+      draftId: draft.id,
+    });
+    if (!result.revision) {
+      throw new ConflictException('The configuration already contains these changes');
+    }
+
+    await this.audit.log({
+      action: 'CONFIG_DRAFT_PUBLISHED',
+      resource: 'GlobalConfig',
+      resourceId: result.config.id,
+      oldValue: changeValues(result.changes, 'from'),
+      newValue: {
+        ...changeValues(result.changes, 'to'),
+        draftId: draft.id,
+        version: result.revision.version,
+      },
+      performedById,
+      ipAddress,
+    });
+
+    return result.revision;
+  }
+
+  async discardDraft(propertyId: string, id: string): Promise<void> {
+    await this.findDraft(propertyId, id);
+    await this.prisma.configRevision.update({
+      where: { id },
+      data: { status: ConfigRevisionStatus.DISCARDED },
+    });
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async findDraft(propertyId: string, id: string): Promise<ConfigRevision> {
+    const draft = await this.prisma.configRevision.findUnique({ where: { id } });
+    if (
+      !draft ||
+      draft.property_id !== propertyId ||
+      draft.status !== ConfigRevisionStatus.DRAFT
+    ) {
+      throw new NotFoundException('Draft not found');
+    }
+    return draft;
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function pickConfigFields(source: ConfigChanges): ConfigChanges {
+  const picked: Record<string, unknown> = {};
+  for (const field of CONFIG_FIELDS) {
+    if (source[field] !== undefined) picked[field] = source[field];
+  }
+  return picked as ConfigChanges;
+}
+
+function toSnapshot(config: GlobalConfig): ConfigSnapshot {
+  return Object.fromEntries(CONFIG_FIELDS.map((field) => [field, config[field]])) as ConfigSnapshot;
+}
+
+/** Locale lists and translations are compared by value. */
+function diffSnapshots(a: ConfigSnapshot, b: ConfigSnapshot): ConfigFieldChange[] {
+  return CONFIG_FIELDS.filter(
+    (field) => JSON.stringify(a[field] ?? null) !== JSON.stringify(b[field] ?? null),
+  ).map((field) => ({ field, from: a[field] ?? null, to: b[field] ?? null }));
+}
+
+function changeValues(changes: ConfigFieldChange[], side: 'from' | 'to'): Record<string, unknown> {
+  return Object.fromEntries(changes.map((change) => [change.field, change[side]]));
+}
@@ -1,22 +1,64 @@
 /**
  * BBH HMS – Public Config Controller
- * GET /api/public/config – Returns hotel branding for the guest website.
+ * GET /api/public/config – Returns hotel branding and the active guest-facing
+ * modules for the guest website. The property is picked by host name
+ * (or X-Property), falling back to the default property.
+ * Text is translated into `?locale=` or the Accept-Language locale when the
+ * property supports it, otherwise into its default locale.
  * No authentication required (decorated with @Public).
+ *
+ * The settings are served from Redis (PublicConfigCache) and the response
+ * carries an ETag, so unchanged configs are answered with 304.
  */
 
-import { Controller, Get, UseGuards } from '@nestjs/common';
-import { PrismaService } from '../../../libs/prisma/prisma.service';
+import { Controller, Get, Query, Req, Res, UseGuards } from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { createHash } from 'crypto';
+import type { GlobalConfig, ModuleName } from '@prisma/client';
+import { ModuleStateService } from '../../../libs/modules/module-state.service';
+import { PropertyService } from '../../../libs/properties/property.service';
+import { PublicConfigCache } from '../../../libs/properties/public-config-cache.service';
 import { Public } from '../../../libs/auth/decorators/public.decorator';
 import { AuthGuard } from '../../../libs/auth/auth.guard';
-import { RolesGuard } from '../../../libs/auth/roles.guard';
-import { Roles } from '../../../libs/auth/roles.guard';
-import { Role } from '@prisma/client';
+import {
+  PermissionsGuard,
+  RequirePermission,
+} from '../../../libs/auth/permissions.guard';
+import { localizeConfig, negotiateLocale, TRANSLATABLE_FIELDS } from './config-locale';
 
 // ─── Public Endpoint ──────────────────────────────────────────────────────────
 
+const PUBLIC_CONFIG_FIELDS = [
+  'hotel_name',
+  'logo_url',
+  'primary_color',
+  'accent_color',
+  'currency',
+  'timezone',
+  'phone',
+  'email',
+  'default_locale',
+  'supported_locales',
+  'translations',
+  ...TRANSLATABLE_FIELDS,
+] as const;
+
+/** What is cached per property; the response is localized from it per request. */
+interface PublicConfigSource {
+  config: Pick<GlobalConfig, (typeof PUBLIC_CONFIG_FIELDS)[number]> | null;
+  modules: ModuleName[];
+}
+
+/** Browsers and CDNs may reuse a response this long, then revalidate with the ETag. */
+const PUBLIC_CONFIG_MAX_AGE = 60;
+
 @Controller('public')
 export class PublicConfigController {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly modules: ModuleStateService,
+    private readonly properties: PropertyService,
+    private readonly cache: PublicConfigCache,
+  ) {}
 
   /**
    * Returns the hotel's public branding config.
@@ -24,85 +66,227 @@ export class PublicConfigController {
    */
   @Public()
   @Get('config')
-  async getPublicConfig() {
-    const config = await this.prisma.globalConfig.findFirst();
-    return {
+  async getPublicConfig(
+    @Req() req: FastifyRequest,
+    @Res() reply: FastifyReply,
+    @Query('locale') requestedLocale?: string,
+  ) {
+    const property = await this.properties.resolve(req);
+    const { config, modules } = await this.load(property.id);
+
+    const defaultLocale = config?.default_locale ?? 'en';
+    const supportedLocales = config?.supported_locales ?? [defaultLocale];
+    const locale = negotiateLocale(
+      supportedLocales,
+      defaultLocale,
+      requestedLocale,
+      req.headers['accept-language'],
+    );
+    const text = config
+      ? localizeConfig(config, locale)
+      : { tagline: null, address: null, website_footer: null };
+
+    const body = JSON.stringify({
+      property: property.slug,
+      locale,
+      defaultLocale,
+      supportedLocales,
       hotelName: config?.hotel_name ?? 'BBH Hotel',
       logoUrl: config?.logo_url ?? null,
       primaryColor: config?.primary_color ?? '#1a56db',
       accentColor: config?.accent_color ?? '#7e3af2',
       currency: config?.currency ?? 'USD',
       timezone: config?.timezone ?? 'UTC',
-      tagline: config?.tagline ?? null,
-      address: config?.address ?? null,
+      tagline: text.tagline,
+      address: text.address,
+      footer: text.website_footer,
       phone: config?.phone ?? null,
       email: config?.email ?? null,
+      modules,
+    });
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+    reply
+      .header('ETag', etag)
+      .header('Cache-Control', `public, max-age=${PUBLIC_CONFIG_MAX_AGE}`)
+      .header('Content-Language', locale)
+      // The property comes from the host name too (X-Forwarded-Host behind the proxy)
+      .header('Vary', 'Accept-Language, Host, X-Forwarded-Host, X-Property');
+
+    if (matchesEtag(req.headers['if-none-match'], etag)) {
+      return reply.status(304).send();
+    }
+    return reply.type('application/json; charset=utf-8').send(body);
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async load(propertyId: string): Promise<PublicConfigSource> {
+    const { payload: cached, generation } = await this.cache.get<PublicConfigSource>(propertyId);
+    if (cached) return cached;
+
+    const config = await this.properties.getConfig(propertyId);
+    const source: PublicConfigSource = {
+      config: config
+        ? (Object.fromEntries(
+            PUBLIC_CONFIG_FIELDS.map((field) => [field, config[field]]),
+          ) as PublicConfigSource['config'])
+        : null,
+      modules: await this.modules.activeGuestModules(propertyId, true),
     };
+    await this.cache.set(propertyId, generation, source);
+    return source;
   }
 }
 
+/** If-None-Match may list several tags, weak ones included, or `*`. */
+function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === etag || tag === '*');
+}
+
 // ─── Admin Config Controller ──────────────────────────────────────────────────
 
 import {
+  applyDecorators,
   Body,
   HttpCode,
   HttpStatus,
   Patch,
-  Req,
+  Post,
 } from '@nestjs/common';
-import { IsOptional, IsString, IsBoolean, MaxLength } from 'class-validator';
-import type { FastifyRequest } from 'fastify';
-import { AuditService } from '../../../libs/audit/audit.service';
-
-class UpdateConfigDto {
-  @IsOptional() @IsString() @MaxLength(100) hotel_name?: string;
-  @IsOptional() @IsString() @MaxLength(500) logo_url?: string;
-  @IsOptional() @IsString() @MaxLength(7)   primary_color?: string;
-  @IsOptional() @IsString() @MaxLength(7)   accent_color?: string;
-  @IsOptional() @IsString() @MaxLength(3)   currency?: string;
-  @IsOptional() @IsString() @MaxLength(50)  timezone?: string;
-  @IsOptional() @IsBoolean()                maintenance_mode?: boolean;
+import type { Property, User } from '@prisma/client';
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDefined,
+  IsEmail,
+  IsISO4217CurrencyCode,
+  IsObject,
+  IsOptional,
+  IsPhoneNumber,
+  IsString,
+  IsTimeZone,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { Audited } from '../../../libs/audit/audited.interceptor';
+import { readImageUpload } from '../../../libs/storage/image-upload';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import { ConfigRevisionService } from './config-revision.service';
+import { ConfigLogoService, LOGO_MAX_BYTES } from './config-logo.service';
+import { LOCALE_PATTERN, MAX_LOCALES } from './config-locale';
+
+const LOCALE_MESSAGE = 'must be a locale such as "en" or "pt-BR"';
+
+const HEX_COLOR_PATTERN = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+const toUpperCase = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.toUpperCase() : value;
+
+/** May be left out, but not null: the column has no empty state. */
+const IsOptionalNotNull = () =>
+  applyDecorators(
+    ValidateIf((_object: unknown, value: unknown) => value !== undefined),
+    IsDefined(),
+  );
+
+/**
+ * Nullable text columns (phone, email, …) are cleared with null; the others
+ * reject it. logo_url is only set through POST /admin/config/logo.
+ */
+export class UpdateConfigDto {
+  @IsOptionalNotNull() @IsString() @MaxLength(100) hotel_name?: string;
+  @IsOptionalNotNull() @Matches(HEX_COLOR_PATTERN, { message: 'primary_color must be a hex color such as #1a56db' })
+  primary_color?: string;
+  @IsOptionalNotNull() @Matches(HEX_COLOR_PATTERN, { message: 'accent_color must be a hex color such as #7e3af2' })
+  accent_color?: string;
+  @IsOptionalNotNull() @IsISO4217CurrencyCode() @Transform(toUpperCase) currency?: string;
+  @IsOptionalNotNull() @IsTimeZone({ message: 'timezone must be an IANA time zone such as Europe/London' })
+  timezone?: string;
+  @IsOptionalNotNull() @IsBoolean() maintenance_mode?: boolean;
+  @IsOptional() @IsString() @MaxLength(500) maintenance_message?: string;
   @IsOptional() @IsString() @MaxLength(255) tagline?: string;
   @IsOptional() @IsString() @MaxLength(500) address?: string;
-  @IsOptional() @IsString() @MaxLength(50)  phone?: string;
-  @IsOptional() @IsString() @MaxLength(255) email?: string;
+  @IsOptional() @IsPhoneNumber(undefined, { message: 'phone must be in international format, e.g. +44 20 7946 0958' })
+  @MaxLength(50)
+  phone?: string;
+  @IsOptional() @IsEmail() @MaxLength(255) email?: string;
   @IsOptional() @IsString() @MaxLength(500) website_footer?: string;
+  @IsOptionalNotNull() @Matches(LOCALE_PATTERN, { message: `default_locale ${LOCALE_MESSAGE}` })
+  default_locale?: string;
+  @IsOptionalNotNull() @IsArray() @ArrayNotEmpty() @ArrayMaxSize(MAX_LOCALES) @ArrayUnique()
+  @Matches(LOCALE_PATTERN, { each: true, message: `each of supported_locales ${LOCALE_MESSAGE}` })
+  supported_locales?: string[];
+  /** Replaces all translations; checked against the locales in ConfigRevisionService.apply. */
+  @IsOptionalNotNull() @IsObject() translations?: Record<string, Record<string, string>>;
 }
 
 @Controller('admin/config')
-@UseGuards(AuthGuard, RolesGuard)
+@UseGuards(AuthGuard, PermissionsGuard)
 export class ConfigController {
   constructor(
-    private readonly prisma: PrismaService,
-    private readonly audit: AuditService,
+    private readonly properties: PropertyService,
+    private readonly revisions: ConfigRevisionService,
+    private readonly logos: ConfigLogoService,
   ) {}
 
   @Get()
-  @Roles(Role.OWNER, Role.MANAGER)
-  async getConfig() {
-    return this.prisma.globalConfig.findFirst();
+  @RequirePermission('config:read')
+  async getConfig(@CurrentProperty() property: Property) {
+    return this.properties.getConfig(property.id);
   }
 
   @Patch()
-  @Roles(Role.OWNER, Role.MANAGER)
+  @RequirePermission('config:update')
   @HttpCode(HttpStatus.OK)
-  async updateConfig(@Body() dto: UpdateConfigDto, @Req() req: FastifyRequest) {
-    const current = await this.prisma.globalConfig.findFirst();
-    const updated = await this.prisma.globalConfig.update({
-      where: { id: current!.id },
-      data: dto,
-    });
-
-    await this.audit.log({
-      action: 'CONFIG_UPDATE',
-      resource: 'GlobalConfig',
-      resourceId: current!.id,
-      oldValue: current as any,
-      newValue: updated as any,
-      performedById: (req as any).user?.id,
-      ipAddress: req.ip,
-    });
+  @Audited({
+    action: 'CONFIG_UPDATE',
+    resource: 'GlobalConfig',
+    load: (prisma, request) =>
+      prisma.globalConfig.findUnique({ where: { property_id: request.property.id } }),
+  })
+  async updateConfig(
+    @Body() dto: UpdateConfigDto,
+    @CurrentProperty() property: Property,
+    @CurrentUser() user: User,
+  ) {
+    const { config } = await this.revisions.apply(property.id, dto, user.id, 'update');
+    return config;
+  }
 
-    return updated;
+  /**
+   * multipart/form-data with a single JPEG, PNG or WebP file (max 2 MB).
+   * Stored in bbh-public under logos/<slug>/; replaced logos are kept for
+   * rollback (see ConfigLogoService).
+   */
+  @Post('logo')
+  @RequirePermission('config:update')
+  @HttpCode(HttpStatus.OK)
+  @Audited({
+    action: 'CONFIG_LOGO_UPDATED',
+    resource: 'GlobalConfig',
+    load: (prisma, request) =>
+      prisma.globalConfig.findUnique({
+        where: { property_id: request.property.id },
+        select: { id: true, logo_url: true },
+      }),
+  })
+  async uploadLogo(
+    @CurrentProperty() property: Property,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    const upload = await readImageUpload(req, LOGO_MAX_BYTES);
+    return this.logos.upload(property, upload, user.id);
   }
 }
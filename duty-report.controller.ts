@@ -0,0 +1,48 @@
+/**
+ * BBH HMS – Duty Report Controller
+ * /api/admin/reports/duty – shift activity per staff member (reports:read).
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import type { Property, User } from '@prisma/client';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import {
+  DutyReportService,
+  DutyReportQueryDto,
+  DutyReportExportDto,
+} from './duty-report.service';
+
+@Controller('admin/reports/duty')
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermission('reports:read')
+export class DutyReportController {
+  constructor(private readonly reports: DutyReportService) {}
+
+  @Get()
+  async get(@Query() query: DutyReportQueryDto, @CurrentProperty() property: Property) {
+    return this.reports.build(query, property);
+  }
+
+  /** Saves a CSV or PDF to bbh-private and returns a presigned download URL. */
+  @Post('export')
+  async export(
+    @Body() dto: DutyReportExportDto,
+    @CurrentProperty() property: Property,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.reports.export(dto, property, user.id, req.ip);
+  }
+}
@@ -0,0 +1,411 @@
+/**
+ * BBH HMS – DutyReportService
+ * Per-staff shift activity built from the audit trail, grouped by user and
+ * by day in the current property's timezone (GlobalConfig.timezone). Only
+ * the property's own entries count, plus its staff's group-wide ones
+ * (logins, logouts), and roles are those held on the property.
+ *
+ * JSON feeds the dashboard; CSV / PDF exports are saved to bbh-private and
+ * returned as a short-lived download link.
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { IsIn, IsOptional, IsUUID, Matches } from 'class-validator';
+import PDFDocument from 'pdfkit';
+import type { Property } from '@prisma/client';
+import { PrismaService } from '../../../libs/prisma/prisma.service';
+import { AuditService } from '../../../libs/audit/audit.service';
+import { csvRow } from '../../../libs/audit/audit-csv';
+import { StorageService, BUCKET_PRIVATE } from '../../../libs/storage/storage.service';
+import { PropertyService } from '../../../libs/properties/property.service';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ActivityCategory =
+  | 'auth'
+  | 'config'
+  | 'deploy'
+  | 'staff'
+  | 'security'
+  | 'booking'
+  | 'order'
+  | 'other';
+
+export interface DutyEvent {
+  timestamp: string;      // ISO (UTC)
+  localTime: string;      // HH:mm in the hotel timezone
+  category: ActivityCategory;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+}
+
+export interface DutyDay {
+  date: string;           // YYYY-MM-DD in the hotel timezone
+  userId: string;
+  name: string;
+  email: string;
+  role: string | null;
+  firstActivity: string;
+  lastActivity: string;
+  counts: Record<ActivityCategory, number>;
+  events: DutyEvent[];
+}
+
+export interface DutyReport {
+  from: string;
+  to: string;
+  timezone: string;
+  generatedAt: string;
+  days: DutyDay[];
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MAX_RANGE_DAYS = 31;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The actor's own sign-ins and sign-outs, matched exactly: prefixes would also
+ * catch failures (USER_LOGIN_FAILED) and actions on other users
+ * (USER_SESSIONS_REVOKED).
+ */
+const AUTH_ACTIONS = new Set([
+  'USER_LOGIN',
+  'USER_PIN_LOGIN',
+  'USER_LOGOUT',
+  'USER_SESSION_ENDED',
+  'USER_MFA_RECOVERY_CODE_USED',
+]);
+
+/** First matching prefix wins. Booking / order actions arrive with Phase 2. */
+const CATEGORY_PREFIXES: Array<[string, ActivityCategory]> = [
+  ['USER_LOGIN_', 'security'],
+  ['USER_PIN_LOGIN_', 'security'],
+  ['USER_SESSION', 'security'],
+  ['USER_MFA_', 'security'],
+  ['CONFIG_', 'config'],
+  ['MODULE_', 'config'],
+  ['WEBSITE_UPDATE', 'deploy'],
+  ['BOOKING_', 'booking'],
+  ['ORDER_', 'order'],
+  ['USER_', 'staff'],
+  ['ROLE_', 'staff'],
+  ['TERMINAL_', 'security'],
+  ['API_KEY_', 'security'],
+  ['ACCESS_', 'security'],
+  ['ACCOUNT_', 'security'],
+  ['AUDIT_', 'security'],
+];
+
+const CSV_COLUMNS = [
+  'date',
+  'local_time',
+  'user_id',
+  'name',
+  'email',
+  'role',
+  'category',
+  'action',
+  'resource',
+  'resource_id',
+];
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class DutyReportQueryDto {
+  @Matches(DATE_PATTERN, { message: 'from must be YYYY-MM-DD' }) from!: string;
+  @Matches(DATE_PATTERN, { message: 'to must be YYYY-MM-DD' }) to!: string; // Inclusive
+  @IsOptional() @IsUUID() userId?: string;
+}
+
+export class DutyReportExportDto extends DutyReportQueryDto {
+  @IsIn(['csv', 'pdf']) format!: 'csv' | 'pdf';
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class DutyReportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly storage: StorageService,
+    private readonly properties: PropertyService,
+  ) {}
+
+  async build(query: DutyReportQueryDto, property: Property): Promise<DutyReport> {
+    const config = await this.prisma.globalConfig.findUnique({
+      where: { property_id: property.id },
+      select: { timezone: true },
+    });
+    const timezone = resolveTimezone(config?.timezone);
+
+    const spanDays = (Date.parse(query.to) - Date.parse(query.from)) / DAY_MS + 1;
+    if (!(spanDays >= 1)) {
+      throw new BadRequestException('to must be a valid date on or after from');
+    }
+    if (spanDays > MAX_RANGE_DAYS) {
+      throw new BadRequestException(`Reports cover at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const start = zonedDayStart(query.from, timezone);
+    const end = zonedDayStart(nextDate(query.to), timezone);
+
+    const days = new Map<string, DutyDay>();
+
+    for await (const row of this.audit.iterate({
+      performedById: query.userId,
+      from: start,
+      to: end,
+      property: { id: property.id, staff: this.properties.staffWhere(property) },
+    })) {
+      if (!row.performed_by_id || !row.performed_by) continue;
+
+      const date = localDate(row.timestamp, timezone);
+      const key = `${row.performed_by_id}|${date}`;
+      let day = days.get(key);
+      if (!day) {
+        day = {
+          date,
+          userId: row.performed_by_id,
+          name: `${row.performed_by.first_name} ${row.performed_by.last_name}`,
+          email: row.performed_by.email,
+          role: null,
+          firstActivity: row.timestamp.toISOString(),
+          lastActivity: row.timestamp.toISOString(),
+          counts: emptyCounts(),
+          events: [],
+        };
+        days.set(key, day);
+      }
+
+      // Rows arrive newest first
+      const category = categorize(row.action);
+      day.firstActivity = row.timestamp.toISOString();
+      day.counts[category]++;
+      day.events.unshift({
+        timestamp: row.timestamp.toISOString(),
+        localTime: localClock(row.timestamp, timezone),
+        category,
+        action: row.action,
+        resource: row.resource,
+        resourceId: row.resource_id,
+      });
+    }
+
+    const userIds = [...new Set([...days.values()].map((day) => day.userId))];
+    const roles = new Map(
+      (
+        await this.prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: {
+            id: true,
+            role: true,
+            properties: { where: { property_id: property.id }, select: { role: true } },
+          },
+        })
+      ).map((user) => [user.id, user.properties[0]?.role ?? user.role]),
+    );
+    for (const day of days.values()) day.role = roles.get(day.userId) ?? null;
+
+    return {
+      from: query.from,
+      to: query.to,
+      timezone,
+      generatedAt: new Date().toISOString(),
+      days: [...days.values()].sort(
+        (a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name),
+      ),
+    };
+  }
+
+  /** Renders the report, saves it to bbh-private and returns a 1-hour link. */
+  async export(
+    dto: DutyReportExportDto,
+    property: Property,
+    performedById: string,
+    ipAddress?: string,
+  ) {
+    const report = await this.build(dto, property);
+    const file = dto.format === 'csv' ? this.toCsv(report) : await this.toPdf(report, property.id);
+    const mimeType = dto.format === 'csv' ? 'text/csv' : 'application/pdf';
+
+    const uploaded = await this.storage.uploadFile(
+      file,
+      mimeType,
+      BUCKET_PRIVATE,
+      'reports/duty/',
+      `duty-${dto.from}-${dto.to}.${dto.format}`,
+    );
+
+    await this.audit.log({
+      action: 'REPORT_EXPORTED',
+      resource: 'DutyReport',
+      newValue: {
+        format: dto.format,
+        from: dto.from,
+        to: dto.to,
+        userId: dto.userId ?? null,
+        object: `${uploaded.bucket}/${uploaded.key}`,
+      },
+      performedById,
+      ipAddress,
+    });
+
+    return {
+      path: `${uploaded.bucket}/${uploaded.key}`,
+      url: uploaded.url,
+      sizeBytes: uploaded.sizeBytes,
+      mimeType,
+    };
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private toCsv(report: DutyReport): Buffer {
+    const lines = [csvRow(CSV_COLUMNS)];
+    for (const day of report.days) {
+      for (const event of day.events) {
+        lines.push(
+          csvRow([
+            day.date,
+            event.localTime,
+            day.userId,
+            day.name,
+            day.email,
+            day.role,
+            event.category,
+            event.action,
+            event.resource,
+            event.resourceId,
+          ]),
+        );
+      }
+    }
+    return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+  }
+
+  private async toPdf(report: DutyReport, propertyId: string): Promise<Buffer> {
+    const hotel = await this.prisma.globalConfig.findUnique({
+      where: { property_id: propertyId },
+      select: { hotel_name: true },
+    });
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<void>((resolve) => doc.on('end', () => resolve()));
+
+    doc.fontSize(16).text(`${hotel?.hotel_name ?? 'BBH Hotel'} – Duty Log`);
+    doc
+      .fontSize(9)
+      .fillColor('#555')
+      .text(`${report.from} to ${report.to} (${report.timezone}) · generated ${report.generatedAt}`)
+      .fillColor('#000');
+
+    if (report.days.length === 0) {
+      doc.moveDown().fontSize(11).text('No staff activity in this period.');
+    }
+
+    for (const day of report.days) {
+      doc.moveDown();
+      doc.fontSize(12).text(`${day.date} · ${day.name}${day.role ? ` (${day.role})` : ''}`);
+      doc
+        .fontSize(9)
+        .fillColor('#555')
+        .text(
+          `${day.events[0].localTime}–${day.events[day.events.length - 1].localTime} · ` +
+            Object.entries(day.counts)
+              .filter(([, count]) => count > 0)
+              .map(([category, count]) => `${category} ${count}`)
+              .join(', '),
+        )
+        .fillColor('#000');
+
+      for (const event of day.events) {
+        doc.text(
+          `${event.localTime}  ${event.action}  ${event.resource}` +
+            (event.resourceId ? ` ${event.resourceId}` : ''),
+        );
+      }
+    }
+
+    doc.end();
+    await finished;
+    return Buffer.concat(chunks);
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function categorize(action: string): ActivityCategory {
+  if (AUTH_ACTIONS.has(action)) return 'auth';
+  return CATEGORY_PREFIXES.find(([prefix]) => action.startsWith(prefix))?.[1] ?? 'other';
+}
+
+function emptyCounts(): Record<ActivityCategory, number> {
+  return { auth: 0, config: 0, deploy: 0, staff: 0, security: 0, booking: 0, order: 0, other: 0 };
+}
+
+/** Invalid timezones in GlobalConfig fall back to UTC. */
+function resolveTimezone(timezone?: string | null): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone ?? 'UTC' });
+    return timezone ?? 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+function localDate(instant: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+function localClock(instant: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(instant);
+}
+
+function nextDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+/** The UTC instant of local midnight on `date` in `timezone`. */
+function zonedDayStart(date: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+
+  // Offsets differ across a DST change, so correct once with the real one
+  let instant = utcMidnight - offsetMs(new Date(utcMidnight), timezone);
+  instant = utcMidnight - offsetMs(new Date(instant), timezone);
+  return new Date(instant);
+}
+
+function offsetMs(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
@@ -0,0 +1,29 @@
+/**
+ * BBH HMS – Health Controller
+ * GET /api/health – liveness for Docker / monitoring. No authentication,
+ * and available during maintenance.
+ *
+ * "degraded" means the API is serving requests but audit entries are
+ * waiting in the local spool because PostgreSQL was unreachable.
+ */
+
+import { Controller, Get } from '@nestjs/common';
+import { Public } from '../../../libs/auth/decorators/public.decorator';
+import { AllowDuringMaintenance } from '../../../libs/auth/decorators/allow-during-maintenance.decorator';
+import { AuditService } from '../../../libs/audit/audit.service';
+
+@Controller('health')
+@AllowDuringMaintenance()
+export class HealthController {
+  constructor(private readonly audit: AuditService) {}
+
+  @Public()
+  @Get()
+  check() {
+    const pending = this.audit.pendingCount;
+    return {
+      status: pending > 0 ? 'degraded' : 'ok',
+      audit: { pendingEntries: pending },
+    };
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * BBH HMS – Image Upload Helper
+ * Reads a single image from a multipart request (@fastify/multipart)
+ * and enforces type and size before anything reaches MinIO.
+ * The type is taken from the file's magic bytes, never from the client alone.
+ */
+
+import {
+  BadRequestException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import * as path from 'path';
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface ImageUpload {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+/**
+ * @param req          - Multipart request with one file field
+ * @param maxBytes     - Upper size limit for the image
+ * @param allowedTypes - Accepted MIME types (default: JPEG, PNG, WebP)
+ */
+export async function readImageUpload(
+  req: FastifyRequest,
+  maxBytes: number,
+  allowedTypes: string[] = IMAGE_MIME_TYPES,
+): Promise<ImageUpload> {
+  if (!(req as any).isMultipart?.()) {
+    throw new BadRequestException('Expected a multipart/form-data upload');
+  }
+
+  const file = await (req as any).file({ limits: { fileSize: maxBytes, files: 1 } });
+  if (!file) throw new BadRequestException('No file uploaded');
+
+  if (!allowedTypes.includes(file.mimetype)) {
+    throw new BadRequestException(
+      `Unsupported file type ${file.mimetype}. Allowed: ${allowedTypes.join(', ')}`,
+    );
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await file.toBuffer();
+  } catch (err: any) {
+    if (err.code === 'FST_REQ_FILE_TOO_LARGE') {
+      throw new PayloadTooLargeException(`File exceeds ${maxBytes} bytes`);
+    }
+    throw err;
+  }
+
+  const detected = detectImageType(buffer);
+  if (detected !== file.mimetype) {
+    throw new BadRequestException(`File content is not a valid ${file.mimetype} image`);
+  }
+
+  // The stored key takes its extension from the name, so match it to the content
+  const baseName = path.parse(file.filename ?? '').name || 'image';
+  return { buffer, mimeType: detected, fileName: baseName + IMAGE_EXTENSIONS[detected] };
+}
+
+/** JPEG, PNG or WebP from the leading bytes; null for anything else. */
+function detectImageType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (
+    buffer.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    buffer.subarray(8, 12).toString('latin1') === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return null;
+}
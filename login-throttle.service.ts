@@ -0,0 +1,172 @@
+/**
+ * BBH HMS – LoginThrottleService
+ * Redis-backed brute-force protection for password and PIN logins.
+ *
+ * Per account: escalating delay between attempts, then a temporary lockout.
+ * Per IP:      a higher failure budget, then a temporary block.
+ * Per IP:      a budget of "forgot password" requests (mail flooding).
+ *
+ * Accounts are keyed by a hash of the login identifier (email or PIN user id),
+ * so unknown emails are throttled exactly like real ones and nothing reveals
+ * whether an account exists.
+ */
+
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { AuditService } from '../audit/audit.service';
+import { RedisService } from '../redis/redis.service';
+import type { FastifyReply } from 'fastify';
+import { createHash } from 'crypto';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const FAIL_PREFIX  = 'login_fail:';  // Counter within the failure window
+const DELAY_PREFIX = 'login_delay:'; // Present while the next attempt must wait
+const LOCK_PREFIX  = 'login_lock:';  // Present while locked out
+const RESET_PREFIX = 'reset_req:';   // Password reset requests within the window
+
+const MAX_DELAY_SECONDS = 30;
+const FREE_ATTEMPTS = 2; // Failures before delays start
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  private readonly maxAccountFailures = parseInt(process.env.LOGIN_MAX_FAILURES ?? '5', 10);
+  private readonly maxIpFailures = parseInt(process.env.LOGIN_MAX_IP_FAILURES ?? '20', 10);
+  private readonly lockoutSeconds = parseInt(process.env.LOGIN_LOCKOUT_MINUTES ?? '15', 10) * 60;
+  private readonly maxResetRequests = parseInt(process.env.PASSWORD_RESET_MAX_PER_IP ?? '5', 10);
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly audit: AuditService,
+  ) {}
+
+  /**
+   * Throw 429 (with Retry-After) if the IP or account may not try now.
+   * The message is identical for every reason.
+   */
+  async assertAllowed(ip: string, account: string, reply?: FastifyReply): Promise<void> {
+    const keys = [
+      LOCK_PREFIX + this.ipKey(ip),
+      LOCK_PREFIX + this.accountKey(account),
+      DELAY_PREFIX + this.accountKey(account),
+    ];
+    const ttls = await Promise.all(keys.map((key) => this.redis.client.pTTL(key)));
+    const waitMs = Math.max(0, ...ttls);
+
+    if (waitMs > 0) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      reply?.header('Retry-After', String(retryAfter));
+      throw new HttpException(
+        `Too many failed attempts. Try again in ${retryAfter} seconds.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt. Pass userId when the account exists so the
+   * lockout can be audited against it.
+   */
+  async recordFailure(ip: string, account: string, userId?: string): Promise<void> {
+    const accountKey = this.accountKey(account);
+    const ipKey = this.ipKey(ip);
+
+    const [accountFailures, ipFailures] = await Promise.all([
+      this.increment(FAIL_PREFIX + accountKey),
+      this.increment(FAIL_PREFIX + ipKey),
+    ]);
+
+    if (accountFailures >= this.maxAccountFailures) {
+      await this.lock(accountKey);
+      if (userId) {
+        await this.audit.log({
+          action: 'ACCOUNT_LOCKED',
+          resource: 'User',
+          resourceId: userId,
+          newValue: {
+            failures: accountFailures,
+            lockedUntil: new Date(Date.now() + this.lockoutSeconds * 1000),
+          },
+          ipAddress: ip,
+        });
+      }
+    } else if (accountFailures > FREE_ATTEMPTS) {
+      const delay = Math.min(2 ** (accountFailures - FREE_ATTEMPTS - 1), MAX_DELAY_SECONDS);
+      await this.redis.client.set(DELAY_PREFIX + accountKey, '1', { EX: delay });
+    }
+
+    if (ipFailures >= this.maxIpFailures) {
+      await this.lock(ipKey);
+      this.logger.warn(`Login blocked for IP ${ip} after ${ipFailures} failures`);
+      await this.audit.log({
+        action: 'LOGIN_IP_BLOCKED',
+        resource: 'Auth',
+        newValue: { failures: ipFailures },
+        ipAddress: ip,
+      });
+    }
+  }
+
+  /**
+   * Count a password reset request from the IP and throw 429 (with
+   * Retry-After) once it exceeds the budget for the lockout window.
+   */
+  async assertResetRequestAllowed(ip: string, reply?: FastifyReply): Promise<void> {
+    const key = RESET_PREFIX + this.ipKey(ip);
+    const requests = await this.increment(key);
+    if (requests <= this.maxResetRequests) return;
+
+    const retryAfter = Math.max(1, await this.redis.client.ttl(key));
+    reply?.header('Retry-After', String(retryAfter));
+    throw new HttpException(
+      `Too many reset requests. Try again in ${retryAfter} seconds.`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /** Reset the account's counters. IP counters are left to expire. */
+  async recordSuccess(account: string): Promise<void> {
+    const accountKey = this.accountKey(account);
+    await this.redis.client.del([FAIL_PREFIX + accountKey, DELAY_PREFIX + accountKey]);
+  }
+
+  /** Clear lockout, delay and failure count for the given login identifiers. */
+  async unlock(accounts: string[]): Promise<void> {
+    const keys = accounts.flatMap((account) => {
+      const accountKey = this.accountKey(account);
+      return [FAIL_PREFIX, DELAY_PREFIX, LOCK_PREFIX].map((prefix) => prefix + accountKey);
+    });
+    await this.redis.client.del(keys);
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /** INCR, starting the lockout-length window on the first failure. */
+  private async increment(key: string): Promise<number> {
+    const count = await this.redis.client.incr(key);
+    if (count === 1) await this.redis.client.expire(key, this.lockoutSeconds);
+    return count;
+  }
+
+  private async lock(key: string): Promise<void> {
+    await this.redis.client.set(LOCK_PREFIX + key, '1', { EX: this.lockoutSeconds });
+    await this.redis.client.del([FAIL_PREFIX + key, DELAY_PREFIX + key]);
+  }
+
+  private accountKey(account: string): string {
+    const digest = createHash('sha256').update(account.toLowerCase().trim()).digest('hex');
+    return `acct:${digest}`;
+  }
+
+  private ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+}
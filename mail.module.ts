@@ -0,0 +1,16 @@
+/**
+ * BBH HMS – Mail Module
+ */
+
+import { Module } from '@nestjs/common';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, createMailTransport } from './mail.transport';
+
+@Module({
+  providers: [
+    MailService,
+    { provide: MAIL_TRANSPORT, useFactory: createMailTransport },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,36 @@
+/**
+ * BBH HMS – MailService
+ * Outgoing email (password resets, invitations) through the configured transport.
+ */
+
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './mail.transport';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from =
+    process.env.MAIL_FROM || `BBH HMS <no-reply@${process.env.DOMAIN ?? 'localhost'}>`;
+
+  constructor(@Inject(MAIL_TRANSPORT) private readonly transport: MailTransport) {}
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send(this.from, message);
+      this.logger.debug(`Mail "${message.subject}" sent to ${message.to}`);
+    } catch (err: any) {
+      this.logger.error(`Mail to ${message.to} failed: ${err.message}`);
+      throw new InternalServerErrorException('Email could not be sent');
+    }
+  }
+
+  /** Absolute link into the admin panel, e.g. adminUrl('/reset-password?token=…'). */
+  adminUrl(pathAndQuery: string): string {
+    return `https://admin.${process.env.DOMAIN}${pathAndQuery}`;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * BBH HMS – Mail Transports
+ * MailService delivers through exactly one transport, chosen by MAIL_TRANSPORT:
+ *   console – log the message (default in development)
+ *   file    – write an .eml file per message to MAIL_OUTBOX_DIR
+ *   smtp    – deliver via SMTP_URL (production)
+ */
+
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTransport } from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(from: string, message: MailMessage): Promise<void>;
+}
+
+// ─── console ──────────────────────────────────────────────────────────────────
+
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('ConsoleMailTransport');
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    this.logger.log(
+      `\nFrom: ${from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+    );
+  }
+}
+
+// ─── file ─────────────────────────────────────────────────────────────────────
+
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.eml`;
+    const eml = [
+      `From: ${from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await fs.writeFile(path.join(this.outboxDir, fileName), eml, 'utf8');
+  }
+}
+
+// ─── smtp ─────────────────────────────────────────────────────────────────────
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(smtpUrl: string) {
+    this.transporter = createTransport(smtpUrl);
+  }
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from, ...message });
+  }
+}
+
+/** Build the transport selected by MAIL_TRANSPORT. */
+export function createMailTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT ?? 'console') {
+    case 'smtp':
+      if (!process.env.SMTP_URL) {
+        throw new Error('MAIL_TRANSPORT=smtp requires SMTP_URL');
+      }
+      return new SmtpMailTransport(process.env.SMTP_URL);
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR ?? '/tmp/bbh-mail');
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`);
+  }
+}
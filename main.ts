@@ -12,11 +12,13 @@ import { ValidationPipe } from '@nestjs/common';
 import fastifySession from '@fastify/session';
 import fastifyCookie from '@fastify/cookie';
 import fastifyHelmet from '@fastify/helmet';
+import fastifyMultipart from '@fastify/multipart';
 import connectRedis from 'connect-redis';
-import { createClient } from 'redis';
 import { Logger } from 'nestjs-pino';
 import { AppModule } from './app.module';
 import { PrismaService } from '../libs/prisma/prisma.service';
+import { RedisService } from '../libs/redis/redis.service';
+import { SESSION_KEY_PREFIX } from '../libs/auth/auth.service';
 
 async function bootstrap(): Promise<void> {
   // ── Fastify Adapter ─────────────────────────────────────────────────────
@@ -50,23 +52,28 @@ async function bootstrap(): Promise<void> {
   // ── Cookies ────────────────────────────────────────────────────────────
   await app.register(fastifyCookie);
 
-  // ── Redis Session Store ────────────────────────────────────────────────
-  const redisClient = createClient({
-    url: process.env.REDIS_URL,
-    socket: { reconnectStrategy: (retries) => Math.min(retries * 50, 2000) },
+  // ── Multipart Uploads (avatars, logos) ────────────────────────────────
+  // Per-route limits are applied by readImageUpload(); this is the hard cap.
+  await app.register(fastifyMultipart, {
+    limits: { fileSize: 10 * 1024 * 1024, files: 1 },
   });
-  await redisClient.connect();
+
+  // ── Redis Session Store ────────────────────────────────────────────────
+  // Shares the RedisService connection so AuthService can index sessions
+  // stored under the same prefix.
+  const redis = app.get(RedisService);
+  await redis.connect();
 
   const RedisStore = connectRedis(fastifySession as any);
 
   await app.register(fastifySession, {
-    store: new RedisStore({ client: redisClient as any, prefix: 'sess:' }),
+    store: new RedisStore({ client: redis.client as any, prefix: SESSION_KEY_PREFIX }),
     secret: process.env.SESSION_SECRET!,
     cookie: {
       httpOnly: true,              // No JS access to cookie
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'strict',
-      maxAge: 8 * 60 * 60 * 1000, // 8 hours (one work shift)
+      maxAge: 8 * 60 * 60 * 1000, // 8 hours (one work shift); access windows end sessions earlier
       path: '/',
     },
     saveUninitialized: false,
@@ -81,7 +88,7 @@ async function bootstrap(): Promise<void> {
     ],
     credentials: true,                           // Allow cookies cross-origin
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Accept', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Accept', 'Authorization', 'X-Terminal-Token', 'X-Property'],
   });
 
   // ── Validation Pipeline ────────────────────────────────────────────────
@@ -102,8 +109,7 @@ async function bootstrap(): Promise<void> {
   await prismaService.enableShutdownHooks(app);
 
   process.on('SIGTERM', async () => {
-    await redisClient.quit();
-    await app.close();
+    await app.close(); // RedisService quits its client on module destroy
     process.exit(0);
   });
 
@@ -0,0 +1,66 @@
+/**
+ * BBH HMS – Maintenance Controller
+ * /api/admin/maintenance – the current property's state and the scheduled
+ * (API-wide) maintenance windows. Manual maintenance is switched per property
+ * with PATCH /api/admin/config; windows affect every property and need the
+ * group-wide maintenance:manage (OWNER only by default).
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { Property, User } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import { CreateMaintenanceWindowDto, MaintenanceService } from './maintenance.service';
+
+@Controller('admin/maintenance')
+@UseGuards(AuthGuard, PermissionsGuard)
+export class MaintenanceController {
+  constructor(private readonly maintenance: MaintenanceService) {}
+
+  @Get()
+  @RequirePermission('config:read')
+  async status(@CurrentProperty() property: Property) {
+    return {
+      ...(await this.maintenance.status(property.id)),
+      windows: await this.maintenance.listWindows(),
+    };
+  }
+
+  /** The API answers 503 between startsAt and endsAt; a running window can be cancelled. */
+  @Post('windows')
+  @RequirePermission('maintenance:manage')
+  async createWindow(
+    @Body() dto: CreateMaintenanceWindowDto,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.maintenance.createWindow(dto, user.id, req.ip);
+  }
+
+  @Delete('windows/:id')
+  @RequirePermission('maintenance:manage')
+  @HttpCode(HttpStatus.OK)
+  async cancelWindow(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.maintenance.cancelWindow(id, user.id, req.ip);
+    return { message: 'Maintenance window cancelled' };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * BBH HMS – MaintenanceGuard
+ * Global guard (APP_GUARD): while the request's property is in maintenance
+ * every route answers 503 with Retry-After, except @AllowDuringMaintenance()
+ * routes (auth, health) and requests from OWNER sessions.
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@prisma/client';
+import type { FastifyReply } from 'fastify';
+import { AuthService } from '../../../libs/auth/auth.service';
+import { PropertyService } from '../../../libs/properties/property.service';
+import { ALLOW_DURING_MAINTENANCE_KEY } from '../../../libs/auth/decorators/allow-during-maintenance.decorator';
+import { MaintenanceService } from './maintenance.service';
+
+@Injectable()
+export class MaintenanceGuard implements CanActivate {
+  constructor(
+    private readonly maintenance: MaintenanceService,
+    private readonly authService: AuthService,
+    private readonly properties: PropertyService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const allowed = this.reflector.getAllAndOverride<boolean>(ALLOW_DURING_MAINTENANCE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (allowed) return true;
+
+    const request = context.switchToHttp().getRequest();
+    const property = await this.properties.resolve(request);
+    const status = await this.maintenance.status(property.id);
+    if (!status.active) return true;
+
+    if (!request.headers.authorization?.startsWith('Bearer ')) {
+      const user = await this.authService.getSessionUser(request);
+      if (user?.role === Role.OWNER) return true;
+    }
+
+    context
+      .switchToHttp()
+      .getResponse<FastifyReply>()
+      .header('Retry-After', String(status.retryAfterSeconds));
+
+    throw new ServiceUnavailableException({
+      statusCode: 503,
+      error: 'MaintenanceMode',
+      message: status.message,
+      endsAt: status.endsAt,
+    });
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * BBH HMS – MaintenanceService
+ * Decides whether a property is in maintenance: either its GlobalConfig
+ * .maintenance_mode is switched on, or a scheduled MaintenanceWindow is
+ * running. Windows cover the whole API (every property) and start and stop
+ * by time alone – nothing has to flip them.
+ */
+
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsDate, IsOptional, IsString, MaxLength } from 'class-validator';
+import { PrismaService } from '../../../libs/prisma/prisma.service';
+import { AuditService } from '../../../libs/audit/audit.service';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface MaintenanceStatus {
+  active: boolean;
+  source: 'manual' | 'window' | null;
+  message: string | null;
+  endsAt: string | null;          // Only known for windows
+  retryAfterSeconds: number | null;
+}
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export class CreateMaintenanceWindowDto {
+  @Type(() => Date) @IsDate() startsAt!: Date;
+  @Type(() => Date) @IsDate() endsAt!: Date;
+  @IsOptional() @IsString() @MaxLength(500) message?: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Checked on every request; cache briefly. */
+const CACHE_TTL_MS = 10_000;
+
+/** Retry-After for manual maintenance, which has no known end. */
+const MANUAL_RETRY_AFTER_SECONDS = parseInt(process.env.MAINTENANCE_RETRY_AFTER ?? '300', 10);
+
+const DEFAULT_MESSAGE = 'BBH HMS is undergoing maintenance. Please try again shortly.';
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class MaintenanceService {
+  private windowCache: {
+    windows: Array<{ starts_at: Date; ends_at: Date; message: string | null }>;
+    loadedAt: number;
+  } | null = null;
+  private readonly propertyCache = new Map<
+    string,
+    { manual: boolean; message: string | null; loadedAt: number }
+  >();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+  ) {}
+
+  async status(propertyId: string, now: Date = new Date()): Promise<MaintenanceStatus> {
+    const [windows, state] = await Promise.all([
+      this.loadWindows(),
+      this.loadProperty(propertyId),
+    ]);
+
+    const window = windows.find((w) => w.starts_at <= now && w.ends_at > now);
+    if (window) {
+      return {
+        active: true,
+        source: 'window',
+        message: window.message || state.message || DEFAULT_MESSAGE,
+        endsAt: window.ends_at.toISOString(),
+        retryAfterSeconds: Math.max(1, Math.ceil((window.ends_at.getTime() - now.getTime()) / 1000)),
+      };
+    }
+
+    if (state.manual) {
+      return {
+        active: true,
+        source: 'manual',
+        message: state.message || DEFAULT_MESSAGE,
+        endsAt: null,
+        retryAfterSeconds: MANUAL_RETRY_AFTER_SECONDS,
+      };
+    }
+
+    return { active: false, source: null, message: null, endsAt: null, retryAfterSeconds: null };
+  }
+
+  /** Upcoming and running windows, soonest first. */
+  async listWindows() {
+    return this.prisma.maintenanceWindow.findMany({
+      where: { cancelled_at: null, ends_at: { gt: new Date() } },
+      orderBy: { starts_at: 'asc' },
+    });
+  }
+
+  async createWindow(dto: CreateMaintenanceWindowDto, performedById: string, ipAddress?: string) {
+    if (dto.endsAt <= dto.startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+    if (dto.endsAt <= new Date()) {
+      throw new BadRequestException('endsAt must be in the future');
+    }
+
+    const window = await this.prisma.maintenanceWindow.create({
+      data: {
+        starts_at: dto.startsAt,
+        ends_at: dto.endsAt,
+        message: dto.message,
+        created_by_id: performedById,
+      },
+    });
+    this.windowCache = null;
+
+    await this.audit.log({
+      action: 'MAINTENANCE_WINDOW_SCHEDULED',
+      resource: 'MaintenanceWindow',
+      resourceId: window.id,
+      newValue: { startsAt: window.starts_at, endsAt: window.ends_at, message: window.message },
+      performedById,
+      ipAddress,
+    });
+
+    return window;
+  }
+
+  /** Cancels an upcoming window, or ends a running one early. */
+  async cancelWindow(id: string, performedById: string, ipAddress?: string) {
+    const window = await this.prisma.maintenanceWindow.findUnique({ where: { id } });
+    if (!window || window.cancelled_at) throw new NotFoundException('Maintenance window not found');
+
+    await this.prisma.maintenanceWindow.update({
+      where: { id },
+      data: { cancelled_at: new Date() },
+    });
+    this.windowCache = null;
+
+    await this.audit.log({
+      action: 'MAINTENANCE_WINDOW_CANCELLED',
+      resource: 'MaintenanceWindow',
+      resourceId: id,
+      oldValue: { startsAt: window.starts_at, endsAt: window.ends_at, message: window.message },
+      performedById,
+      ipAddress,
+    });
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async loadWindows() {
+    if (this.windowCache && Date.now() - this.windowCache.loadedAt < CACHE_TTL_MS) {
+      return this.windowCache.windows;
+    }
+
+    this.windowCache = { windows: await this.listWindows(), loadedAt: Date.now() };
+    return this.windowCache.windows;
+  }
+
+  private async loadProperty(propertyId: string) {
+    const cached = this.propertyCache.get(propertyId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached;
+
+    const config = await this.prisma.globalConfig.findUnique({
+      where: { property_id: propertyId },
+      select: { maintenance_mode: true, maintenance_message: true },
+    });
+    const loaded = {
+      manual: config?.maintenance_mode ?? false,
+      message: config?.maintenance_message ?? null,
+      loadedAt: Date.now(),
+    };
+    this.propertyCache.set(propertyId, loaded);
+    return loaded;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * BBH HMS – Metrics Controller
+ * GET /api/metrics – Prometheus scrape target. No authentication; Traefik
+ * does not route this path, so it is only reachable from the internal
+ * network (prometheus → bbh-api:3333).
+ */
+
+import { Controller, Get, Header } from '@nestjs/common';
+import { Public } from '../../../libs/auth/decorators/public.decorator';
+import { AllowDuringMaintenance } from '../../../libs/auth/decorators/allow-during-maintenance.decorator';
+import { MetricsService } from '../../../libs/metrics/metrics.service';
+
+@Controller('metrics')
+@AllowDuringMaintenance()
+export class MetricsController {
+  constructor(private readonly metrics: MetricsService) {}
+
+  @Public()
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  scrape(): string {
+    return this.metrics.render();
+  }
+}
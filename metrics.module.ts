@@ -0,0 +1,14 @@
+/**
+ * BBH HMS – Metrics Module
+ * Global so any service can register and increment counters.
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+
+@Global()
+@Module({
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
@@ -0,0 +1,67 @@
+/**
+ * BBH HMS – MetricsService
+ * Process-local counters rendered in the Prometheus text format for
+ * GET /api/metrics (scraped per instance, see prometheus.yml).
+ *
+ * Counters are declared once with their help text, then incremented with
+ * optional labels. Values reset when the process restarts, which Prometheus
+ * rate() functions handle.
+ */
+
+import { Injectable } from '@nestjs/common';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type MetricLabels = Record<string, string>;
+
+interface Counter {
+  help: string;
+  values: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class MetricsService {
+  private readonly counters = new Map<string, Counter>();
+
+  /** Declares a counter; the name should end in `_total`. Safe to call twice. */
+  registerCounter(name: string, help: string): void {
+    if (!this.counters.has(name)) this.counters.set(name, { help, values: new Map() });
+  }
+
+  increment(name: string, labels: MetricLabels = {}, by = 1): void {
+    const counter = this.counters.get(name);
+    if (!counter) throw new Error(`Metric ${name} is not registered`);
+
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    const current = counter.values.get(key);
+    if (current) current.value += by;
+    else counter.values.set(key, { labels, value: by });
+  }
+
+  /** All counters in the Prometheus text exposition format (version 0.0.4). */
+  render(): string {
+    const lines: string[] = [];
+    for (const [name, counter] of this.counters) {
+      lines.push(`# HELP ${name} ${counter.help}`, `# TYPE ${name} counter`);
+      if (counter.values.size === 0) lines.push(`${name} 0`);
+      for (const { labels, value } of counter.values.values()) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escaped = entries.map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`,
+  );
+  return `{${escaped.join(',')}}`;
+}
@@ -0,0 +1,103 @@
+/**
+ * BBH HMS – MfaController
+ * Endpoints: POST /auth/mfa/verify, POST /auth/mfa/setup, POST /auth/mfa/enable,
+ *            POST /auth/mfa/disable, POST /auth/mfa/recovery-codes
+ *
+ * verify, setup and enable are reachable from a pending (password-only) login;
+ * AuthService decides who the caller is.
+ */
+
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import type { User } from '@prisma/client';
+import { AuthService, MfaCodeDto } from './auth.service';
+import { MfaService } from './mfa.service';
+import { AuthGuard } from './auth.guard';
+import { Public } from './decorators/public.decorator';
+import { AllowDuringMaintenance } from './decorators/allow-during-maintenance.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@Controller('auth/mfa')
+@AllowDuringMaintenance()
+export class MfaController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly mfa: MfaService,
+  ) {}
+
+  /** Second login step after POST /auth/login answered `mfa: "required"`. */
+  @Public()
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  async verify(@Body() dto: MfaCodeDto, @Req() req: FastifyRequest) {
+    const result = await this.authService.verifyMfa(dto.code, req);
+    return {
+      message: 'Login successful',
+      user: result.user,
+    };
+  }
+
+  /** Returns a new secret and otpauth:// URI for the QR code. */
+  @Public()
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  async setup(@Req() req: FastifyRequest) {
+    const { user } = await this.authService.getMfaSubject(req);
+    return this.mfa.beginEnrollment(user);
+  }
+
+  /**
+   * Confirm enrollment. For a pending login this also completes the login.
+   * Recovery codes are only ever shown in this response.
+   */
+  @Public()
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  async enable(@Body() dto: MfaCodeDto, @Req() req: FastifyRequest) {
+    const { user, pending } = await this.authService.getMfaSubject(req);
+    const recoveryCodes = await this.mfa.enable(user, dto.code, req.ip);
+
+    if (pending) {
+      const result = await this.authService.finishPendingLogin(
+        { ...user, mfa_enabled: true },
+        req,
+      );
+      return { message: 'Login successful', user: result.user, recoveryCodes };
+    }
+
+    return { message: 'Two-factor authentication enabled', recoveryCodes };
+  }
+
+  /** Only for roles where MFA is optional. */
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  async disable(
+    @CurrentUser() user: User,
+    @Body() dto: MfaCodeDto,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.mfa.disable(user, dto.code, req.ip);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: User,
+    @Body() dto: MfaCodeDto,
+    @Req() req: FastifyRequest,
+  ) {
+    const recoveryCodes = await this.mfa.regenerateRecoveryCodes(user, dto.code, req.ip);
+    return { recoveryCodes };
+  }
+}
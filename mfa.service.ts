@@ -0,0 +1,244 @@
+/**
+ * BBH HMS – MfaService
+ * TOTP (RFC 6238) enrollment and verification plus one-time recovery codes.
+ * Mandatory for anyone who is OWNER or MANAGER – globally or on any
+ * property – and optional for everyone else.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { RedisService } from '../redis/redis.service';
+import { PropertyService } from '../properties/property.service';
+import { Role } from '@prisma/client';
+import type { User } from '@prisma/client';
+import { authenticator } from 'otplib';
+import { createHash, randomBytes } from 'crypto';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Roles that can change GlobalConfig or deploy the website. */
+export const MFA_REQUIRED_ROLES: Role[] = [Role.OWNER, Role.MANAGER];
+
+const ISSUER = 'BBH HMS';
+const RECOVERY_CODE_COUNT = 10;
+
+/** A TOTP code is valid for ±1 step (90s); remember used codes that long. */
+const USED_CODE_PREFIX = 'mfa_used:';
+const USED_CODE_TTL_SECONDS = 90;
+
+authenticator.options = { window: 1 };
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string; // Render as a QR code in the admin panel
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly redis: RedisService,
+    private readonly properties: PropertyService,
+  ) {}
+
+  async isRequiredFor(user: Pick<User, 'id'>): Promise<boolean> {
+    return (await this.mandatoryRole(user)) !== undefined;
+  }
+
+  /**
+   * Start (or restart) enrollment by generating a fresh secret.
+   * MFA stays disabled until the first code is confirmed via enable().
+   */
+  async beginEnrollment(user: User): Promise<MfaEnrollment> {
+    if (user.mfa_enabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    const secret = authenticator.generateSecret();
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { mfa_secret: secret },
+    });
+
+    return {
+      secret,
+      otpauthUri: authenticator.keyuri(user.email, ISSUER, secret),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the plaintext recovery codes – shown once, stored hashed.
+   */
+  async enable(user: User, code: string, ipAddress?: string): Promise<string[]> {
+    if (user.mfa_enabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+    if (!user.mfa_secret) {
+      throw new BadRequestException('Start enrollment before enabling');
+    }
+    if (!(await this.verifyTotp(user.id, user.mfa_secret, code))) {
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        mfa_enabled: true,
+        mfa_recovery_codes: recoveryCodes.map((c) => this.hashCode(c)),
+      },
+    });
+
+    await this.audit.log({
+      action: 'USER_MFA_ENABLED',
+      resource: 'User',
+      resourceId: user.id,
+      performedById: user.id,
+      ipAddress,
+    });
+
+    this.logger.log(`MFA enabled for ${user.email}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn MFA off. Not allowed for roles where it is mandatory.
+   */
+  async disable(user: User, code: string, ipAddress?: string): Promise<void> {
+    const mandatoryRole = await this.mandatoryRole(user);
+    if (mandatoryRole) {
+      throw new BadRequestException(
+        `Two-factor authentication is mandatory for ${mandatoryRole}`,
+      );
+    }
+    if (!(await this.verify(user, code))) {
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { mfa_enabled: false, mfa_secret: null, mfa_recovery_codes: [] },
+    });
+
+    await this.audit.log({
+      action: 'USER_MFA_DISABLED',
+      resource: 'User',
+      resourceId: user.id,
+      performedById: user.id,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Replace all recovery codes. Requires a current TOTP code.
+   */
+  async regenerateRecoveryCodes(
+    user: User,
+    code: string,
+    ipAddress?: string,
+  ): Promise<string[]> {
+    if (!user.mfa_enabled || !user.mfa_secret) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyTotp(user.id, user.mfa_secret, code))) {
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { mfa_recovery_codes: recoveryCodes.map((c) => this.hashCode(c)) },
+    });
+
+    await this.audit.log({
+      action: 'USER_MFA_RECOVERY_CODES_REGENERATED',
+      resource: 'User',
+      resourceId: user.id,
+      performedById: user.id,
+      ipAddress,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code or, failing that, consume a recovery code.
+   */
+  async verify(user: User, code: string): Promise<boolean> {
+    if (!user.mfa_enabled || !user.mfa_secret) return false;
+
+    const normalized = code.replace(/\s/g, '');
+    if (/^\d{6}$/.test(normalized)) {
+      return this.verifyTotp(user.id, user.mfa_secret, normalized);
+    }
+
+    return this.consumeRecoveryCode(user, normalized);
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /** A held role (global or on any property) that makes MFA mandatory. */
+  private async mandatoryRole(user: Pick<User, 'id'>): Promise<Role | undefined> {
+    const roles = await this.properties.heldRoles(user.id);
+    return roles.find((role) => MFA_REQUIRED_ROLES.includes(role));
+  }
+
+  /** Valid TOTP codes are accepted once; a replay within the window fails. */
+  private async verifyTotp(userId: string, secret: string, code: string): Promise<boolean> {
+    if (!authenticator.check(code, secret)) return false;
+
+    const fresh = await this.redis.client.set(`${USED_CODE_PREFIX}${userId}:${code}`, '1', {
+      NX: true,
+      EX: USED_CODE_TTL_SECONDS,
+    });
+    return fresh === 'OK';
+  }
+
+  private async consumeRecoveryCode(user: User, code: string): Promise<boolean> {
+    const hash = this.hashCode(code.toLowerCase());
+    if (!user.mfa_recovery_codes.includes(hash)) return false;
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        mfa_recovery_codes: user.mfa_recovery_codes.filter((h) => h !== hash),
+      },
+    });
+
+    await this.audit.log({
+      action: 'USER_MFA_RECOVERY_CODE_USED',
+      resource: 'User',
+      resourceId: user.id,
+      newValue: { remaining: user.mfa_recovery_codes.length - 1 },
+      performedById: user.id,
+    });
+
+    return true;
+  }
+
+  /** Format: xxxxx-xxxxx (lowercase hex). */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private hashCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * BBH HMS – Module Config Schemas
+ * One class-validator schema per ModuleName, with defaults and a version.
+ *
+ * Stored configs carry the version they were written with
+ * (ModuleState.config_version). On read they are migrated up to the current
+ * version, merged over the defaults and validated; fields that still fail
+ * fall back to their defaults, so a bad blob never reaches a module.
+ *
+ * Changing a schema: bump `version` and add a migration keyed by the new
+ * version that turns the previous shape into the new one.
+ */
+
+import { plainToInstance } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  validateSync,
+} from 'class-validator';
+import type { ValidationError } from 'class-validator';
+import { ModuleName } from '@prisma/client';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ModuleConfigSchema<T extends object> {
+  version: number;
+  schema: new () => T;
+  defaults: T;
+  /** Keyed by the version they produce; each receives the previous version's shape. */
+  migrations: Record<number, (config: Record<string, unknown>) => Record<string, unknown>>;
+}
+
+export interface ConfigFieldError {
+  field: string;
+  messages: string[];
+}
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class RestaurantConfig {
+  @IsBoolean() acceptsReservations!: boolean;
+  @IsInt() @Min(15) @Max(240) reservationSlotMinutes!: number;
+  @IsInt() @Min(1) @Max(500) tableCount!: number;
+  @IsNumber({ maxDecimalPlaces: 2 }) @Min(0) @Max(30) serviceChargePercent!: number;
+}
+
+export class SpaConfig {
+  @Matches(TIME_PATTERN, { message: 'openingTime must be HH:MM' }) openingTime!: string;
+  @Matches(TIME_PATTERN, { message: 'closingTime must be HH:MM' }) closingTime!: string;
+  @IsInt() @Min(15) @Max(240) slotMinutes!: number;
+  @IsInt() @Min(0) @Max(168) bookingLeadHours!: number;
+}
+
+export class KitchenConfig {
+  @IsInt() @Min(1) @Max(120) ticketWarningMinutes!: number;
+  @IsInt() @Min(0) @Max(240) autoBumpMinutes!: number; // 0 = never
+}
+
+export class HousekeepingConfig {
+  @IsBoolean() inspectionRequired!: boolean;
+  @IsInt() @Min(5) @Max(240) defaultCleaningMinutes!: number;
+}
+
+export class MaintenanceConfig {
+  @IsIn(['LOW', 'MEDIUM', 'HIGH']) defaultPriority!: 'LOW' | 'MEDIUM' | 'HIGH';
+  @IsInt() @Min(1) @Max(720) slaHours!: number;
+}
+
+export class EventsConfig {
+  @IsInt() @Min(1) @Max(10_000) maxGuestsPerEvent!: number;
+  @IsInt() @Min(0) @Max(100) depositPercent!: number;
+}
+
+export class PosConfig {
+  @IsBoolean() taxInclusive!: boolean;
+  @IsNumber({ maxDecimalPlaces: 2 }) @Min(0) @Max(50) taxRatePercent!: number;
+  @IsString() @MaxLength(500) receiptFooter!: string;
+}
+
+export interface ModuleConfigMap {
+  [ModuleName.RESTAURANT]: RestaurantConfig;
+  [ModuleName.SPA]: SpaConfig;
+  [ModuleName.KITCHEN]: KitchenConfig;
+  [ModuleName.HOUSEKEEPING]: HousekeepingConfig;
+  [ModuleName.MAINTENANCE]: MaintenanceConfig;
+  [ModuleName.EVENTS]: EventsConfig;
+  [ModuleName.POS]: PosConfig;
+}
+
+export const MODULE_CONFIG_SCHEMAS: {
+  [M in ModuleName]: ModuleConfigSchema<ModuleConfigMap[M]>;
+} = {
+  [ModuleName.RESTAURANT]: {
+    version: 1,
+    schema: RestaurantConfig,
+    defaults: {
+      acceptsReservations: true,
+      reservationSlotMinutes: 30,
+      tableCount: 20,
+      serviceChargePercent: 0,
+    },
+    migrations: {},
+  },
+  [ModuleName.SPA]: {
+    version: 1,
+    schema: SpaConfig,
+    defaults: {
+      openingTime: '09:00',
+      closingTime: '21:00',
+      slotMinutes: 60,
+      bookingLeadHours: 2,
+    },
+    migrations: {},
+  },
+  [ModuleName.KITCHEN]: {
+    version: 1,
+    schema: KitchenConfig,
+    defaults: { ticketWarningMinutes: 15, autoBumpMinutes: 0 },
+    migrations: {},
+  },
+  [ModuleName.HOUSEKEEPING]: {
+    version: 1,
+    schema: HousekeepingConfig,
+    defaults: { inspectionRequired: true, defaultCleaningMinutes: 30 },
+    migrations: {},
+  },
+  [ModuleName.MAINTENANCE]: {
+    version: 1,
+    schema: MaintenanceConfig,
+    defaults: { defaultPriority: 'MEDIUM', slaHours: 24 },
+    migrations: {},
+  },
+  [ModuleName.EVENTS]: {
+    version: 1,
+    schema: EventsConfig,
+    defaults: { maxGuestsPerEvent: 200, depositPercent: 25 },
+    migrations: {},
+  },
+  [ModuleName.POS]: {
+    version: 1,
+    schema: PosConfig,
+    defaults: { taxInclusive: true, taxRatePercent: 0, receiptFooter: '' },
+    migrations: {},
+  },
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Runs the migrations from `fromVersion` up to the schema's current version.
+ * Version 0 is a blob written before schemas existed; it is taken as-is.
+ */
+export function migrateModuleConfig(
+  name: ModuleName,
+  config: unknown,
+  fromVersion: number,
+): Record<string, unknown> {
+  const { version, migrations } = MODULE_CONFIG_SCHEMAS[name];
+  let migrated = isPlainObject(config) ? { ...config } : {};
+
+  for (let next = fromVersion + 1; next <= version; next++) {
+    migrated = migrations[next]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+/**
+ * Field-level errors for a complete config; unknown fields are errors too.
+ * Empty when the config is valid.
+ */
+export function validateModuleConfig(name: ModuleName, config: unknown): ConfigFieldError[] {
+  if (!isPlainObject(config)) {
+    return [{ field: '', messages: ['config must be an object'] }];
+  }
+
+  const errors = validateSync(plainToInstance(MODULE_CONFIG_SCHEMAS[name].schema, config), {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+  return errors.map(toFieldError);
+}
+
+/**
+ * The effective config of a module: the stored blob migrated, merged over
+ * the defaults, unknown fields dropped and invalid fields reset to default.
+ */
+export function resolveModuleConfig<M extends ModuleName>(
+  name: M,
+  stored: unknown,
+  storedVersion: number,
+): { config: ModuleConfigMap[M]; invalidFields: string[] } {
+  const { defaults } = MODULE_CONFIG_SCHEMAS[name];
+  const migrated = migrateModuleConfig(name, stored, storedVersion);
+
+  const config: Record<string, unknown> = { ...defaults };
+  for (const key of Object.keys(defaults)) {
+    if (key in migrated) config[key] = migrated[key];
+  }
+
+  const invalidFields = validateModuleConfig(name, config).map((error) => error.field);
+  for (const field of invalidFields) {
+    config[field] = (defaults as Record<string, unknown>)[field];
+  }
+
+  return { config: config as ModuleConfigMap[M], invalidFields };
+}
+
+function toFieldError(error: ValidationError): ConfigFieldError {
+  return {
+    field: error.property,
+    messages: Object.values(error.constraints ?? {}),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
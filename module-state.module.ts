@@ -0,0 +1,18 @@
+/**
+ * BBH HMS – Module State Module
+ * Global so any feature module can use @RequiresModule() without importing it.
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { ModuleStateService } from './module-state.service';
+import { ModuleGuard } from './module.guard';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Global()
+@Module({
+  imports: [PrismaModule, AuditModule],
+  providers: [ModuleStateService, ModuleGuard],
+  exports: [ModuleStateService, ModuleGuard],
+})
+export class ModuleStateModule {}
@@ -0,0 +1,241 @@
+/**
+ * BBH HMS – ModuleStateService
+ * Reads and toggles the ModuleState feature flags (one row per ModuleName
+ * and property, seeded by AppModule / PropertyService) and serves each module's typed, schema-checked config
+ * (see module-config.ts). States are cached briefly per process.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { IsBoolean, IsObject, IsOptional } from 'class-validator';
+import { ModuleName, Prisma } from '@prisma/client';
+import type { ModuleState } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { ActivityService } from '../audit/activity.service';
+import { PublicConfigCache } from '../properties/public-config-cache.service';
+import {
+  MODULE_CONFIG_SCHEMAS,
+  resolveModuleConfig,
+  validateModuleConfig,
+} from './module-config';
+import type { ModuleConfigMap } from './module-config';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export class UpdateModuleDto {
+  @IsOptional() @IsBoolean() isEnabled?: boolean;
+  /** Merged over the current config; the result must satisfy the module's schema. */
+  @IsOptional() @IsObject() config?: Record<string, unknown>;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Modules with pages on the guest website; listed in the public config. */
+export const GUEST_FACING_MODULES: ModuleName[] = [
+  ModuleName.RESTAURANT,
+  ModuleName.SPA,
+  ModuleName.EVENTS,
+];
+
+const CACHE_TTL_MS = 30_000;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class ModuleStateService implements OnModuleInit {
+  private readonly logger = new Logger(ModuleStateService.name);
+  private readonly cache = new Map<
+    string,
+    { states: Map<ModuleName, ModuleState>; loadedAt: number }
+  >();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly activity: ActivityService,
+    private readonly publicConfig: PublicConfigCache,
+  ) {}
+
+  /** Brings stored configs written with an older schema version up to date. */
+  async onModuleInit(): Promise<void> {
+    const rows = await this.prisma.moduleState.findMany();
+
+    for (const row of rows) {
+      const { version } = MODULE_CONFIG_SCHEMAS[row.module_name];
+      if (row.config_version >= version) continue;
+
+      // Nothing stored – the defaults apply as they are
+      if (row.config === null) {
+        await this.prisma.moduleState.update({
+          where: { id: row.id },
+          data: { config_version: version },
+        });
+        continue;
+      }
+
+      const { config, invalidFields } = resolveModuleConfig(
+        row.module_name,
+        row.config,
+        row.config_version,
+      );
+      await this.prisma.moduleState.update({
+        where: { id: row.id },
+        data: { config: config as unknown as Prisma.InputJsonValue, config_version: version },
+      });
+
+      await this.audit.log({
+        action: 'MODULE_CONFIG_MIGRATED',
+        resource: 'ModuleState',
+        resourceId: row.id,
+        oldValue: { module: row.module_name, version: row.config_version, config: row.config },
+        newValue: { module: row.module_name, version, config, invalidFields },
+      });
+      this.logger.log(`Migrated ${row.module_name} config to version ${version}`);
+    }
+  }
+
+  async list(propertyId: string) {
+    const { states } = await this.load(propertyId);
+    return Object.values(ModuleName).map((name) => this.toView(name, states.get(name)));
+  }
+
+  async get(propertyId: string, name: ModuleName) {
+    const { states } = await this.load(propertyId);
+    return this.toView(name, states.get(name));
+  }
+
+  async isEnabled(propertyId: string, name: ModuleName): Promise<boolean> {
+    const { states } = await this.load(propertyId);
+    return states.get(name)?.is_enabled ?? false;
+  }
+
+  /**
+   * The module's effective config, always complete and valid.
+   * @example const { slotMinutes } = await modules.getConfig(property.id, ModuleName.SPA);
+   */
+  async getConfig<M extends ModuleName>(propertyId: string, name: M): Promise<ModuleConfigMap[M]> {
+    const { states } = await this.load(propertyId);
+    return this.resolve(name, states.get(name)) as ModuleConfigMap[M];
+  }
+
+  /** `fresh` skips this process's cache, e.g. for results cached across instances. */
+  async activeGuestModules(propertyId: string, fresh = false): Promise<ModuleName[]> {
+    if (fresh) this.cache.delete(propertyId);
+    const { states } = await this.load(propertyId);
+    return GUEST_FACING_MODULES.filter((name) => states.get(name)?.is_enabled);
+  }
+
+  async update(
+    propertyId: string,
+    name: ModuleName,
+    dto: UpdateModuleDto,
+    performedById: string,
+    ipAddress?: string,
+  ) {
+    const where = { property_id_module_name: { property_id: propertyId, module_name: name } };
+    const current = await this.prisma.moduleState.findUnique({ where });
+    if (!current) throw new NotFoundException('Module not found');
+
+    let config: Record<string, unknown> | undefined;
+    if (dto.config !== undefined) {
+      config = { ...this.resolve(name, current), ...dto.config };
+      const errors = validateModuleConfig(name, config);
+      if (errors.length > 0) {
+        throw new BadRequestException({
+          statusCode: 400,
+          error: 'InvalidModuleConfig',
+          message: `Invalid ${name} module config`,
+          errors,
+        });
+      }
+    }
+
+    const updated = await this.prisma.moduleState.update({
+      where,
+      data: {
+        ...(dto.isEnabled !== undefined ? { is_enabled: dto.isEnabled } : {}),
+        ...(config !== undefined
+          ? {
+              config: config as Prisma.InputJsonValue,
+              config_version: MODULE_CONFIG_SCHEMAS[name].version,
+            }
+          : {}),
+      },
+    });
+    this.cache.delete(propertyId);
+
+    const toggled = updated.is_enabled !== current.is_enabled;
+    if (toggled && GUEST_FACING_MODULES.includes(name)) {
+      await this.publicConfig.invalidate(propertyId);
+    }
+
+    await this.audit.log({
+      action: toggled
+        ? updated.is_enabled ? 'MODULE_ENABLED' : 'MODULE_DISABLED'
+        : 'MODULE_CONFIG_UPDATED',
+      resource: 'ModuleState',
+      resourceId: updated.id,
+      oldValue: { module: name, is_enabled: current.is_enabled, config: current.config },
+      newValue: { module: name, is_enabled: updated.is_enabled, config: updated.config },
+      performedById,
+      ipAddress,
+    });
+
+    if (toggled) {
+      this.activity.publishSystem('module_toggled', 'config:read', {
+        module: name,
+        propertyId,
+        isEnabled: updated.is_enabled,
+        performedById,
+      });
+    }
+
+    return this.toView(name, updated);
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async load(propertyId: string) {
+    const cached = this.cache.get(propertyId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached;
+
+    const rows = await this.prisma.moduleState.findMany({ where: { property_id: propertyId } });
+    const loaded = {
+      states: new Map(rows.map((row) => [row.module_name, row])),
+      loadedAt: Date.now(),
+    };
+    this.cache.set(propertyId, loaded);
+    return loaded;
+  }
+
+  /** Invalid stored fields are replaced by defaults (and logged) rather than served. */
+  private resolve(name: ModuleName, state?: ModuleState) {
+    const { config, invalidFields } = resolveModuleConfig(
+      name,
+      state?.config ?? null,
+      state?.config_version ?? MODULE_CONFIG_SCHEMAS[name].version,
+    );
+    if (invalidFields.length > 0) {
+      this.logger.warn(`${name} config has invalid fields, using defaults: ${invalidFields.join(', ')}`);
+    }
+    return config;
+  }
+
+  private toView(name: ModuleName, state?: ModuleState) {
+    return {
+      module: name,
+      isEnabled: state?.is_enabled ?? false,
+      guestFacing: GUEST_FACING_MODULES.includes(name),
+      config: this.resolve(name, state),
+      configVersion: MODULE_CONFIG_SCHEMAS[name].version,
+      defaults: MODULE_CONFIG_SCHEMAS[name].defaults,
+      updatedAt: state?.updated_at ?? null,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * BBH HMS – ModuleGuard & RequiresModule Decorator
+ * Closes the routes of modules disabled on the request's property.
+ *
+ * @RequiresModule() applies the guard itself, so it can be added to any
+ * controller or route without touching its @UseGuards list. API keys
+ * restricted to modules are checked against the same metadata in AuthGuard.
+ */
+
+import {
+  applyDecorators,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  SetMetadata,
+  UseGuards,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { ModuleName } from '@prisma/client';
+import { ModuleStateService } from './module-state.service';
+import { PropertyService } from '../properties/property.service';
+
+export const REQUIRED_MODULES_KEY = 'requiredModules';
+
+/**
+ * Require every listed module to be enabled.
+ * @example @RequiresModule(ModuleName.SPA)
+ */
+export const RequiresModule = (...modules: ModuleName[]) =>
+  applyDecorators(
+    SetMetadata(REQUIRED_MODULES_KEY, modules),
+    UseGuards(ModuleGuard),
+  );
+
+@Injectable()
+export class ModuleGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly modules: ModuleStateService,
+    private readonly properties: PropertyService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<ModuleName[]>(REQUIRED_MODULES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required || required.length === 0) return true;
+
+    // Public routes have no AuthGuard-resolved property
+    const request = context.switchToHttp().getRequest();
+    const property = request.property ?? (await this.properties.resolve(request));
+
+    for (const module of required) {
+      if (!(await this.modules.isEnabled(property.id, module))) {
+        throw new ForbiddenException({
+          statusCode: 403,
+          error: 'ModuleDisabled',
+          message: `The ${module} module is disabled at ${property.name}`,
+          module,
+        });
+      }
+    }
+
+    return true;
+  }
+}
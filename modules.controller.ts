@@ -0,0 +1,57 @@
+/**
+ * BBH HMS – Modules Controller
+ * /api/admin/modules – list the current property's modules (config:read),
+ * toggle and configure them (modules:manage).
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Patch,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ModuleName } from '@prisma/client';
+import type { Property, User } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import { ModuleStateService, UpdateModuleDto } from '../../../libs/modules/module-state.service';
+
+@Controller('admin/modules')
+@UseGuards(AuthGuard, PermissionsGuard)
+export class ModulesController {
+  constructor(private readonly modules: ModuleStateService) {}
+
+  @Get()
+  @RequirePermission('config:read')
+  async list(@CurrentProperty() property: Property) {
+    return this.modules.list(property.id);
+  }
+
+  @Get(':name')
+  @RequirePermission('config:read')
+  async get(
+    @Param('name', new ParseEnumPipe(ModuleName)) name: ModuleName,
+    @CurrentProperty() property: Property,
+  ) {
+    return this.modules.get(property.id, name);
+  }
+
+  @Patch(':name')
+  @RequirePermission('modules:manage')
+  async update(
+    @Param('name', new ParseEnumPipe(ModuleName)) name: ModuleName,
+    @Body() dto: UpdateModuleDto,
+    @CurrentProperty() property: Property,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.modules.update(property.id, name, dto, user.id, req.ip);
+  }
+}
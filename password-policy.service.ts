@@ -0,0 +1,227 @@
+/**
+ * BBH HMS – PasswordPolicyService
+ * Rules every new password must pass, wherever it is set:
+ *   - minimum / maximum length
+ *   - not on the bundled common/breached list, as typed or by its base word
+ *     (offline, no network calls)
+ *   - does not contain the user's email name or first/last name
+ *   - not one of the user's last N passwords
+ * Optionally forces periodic rotation for privileged roles.
+ *
+ * Violations are returned as structured codes the admin UI can render.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import type { User } from '@prisma/client';
+import * as argon2 from 'argon2';
+import * as fs from 'fs/promises';
+import { PrismaService } from '../prisma/prisma.service';
+import { PropertyService } from '../properties/property.service';
+import { BASE_MIN_LENGTH, COMMON_PASSWORDS, passwordBase } from './common-passwords';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PasswordViolationCode =
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'COMMON_PASSWORD'
+  | 'CONTAINS_PERSONAL_INFO'
+  | 'RECENTLY_USED';
+
+export interface PasswordViolation {
+  code: PasswordViolationCode;
+  message: string;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  historySize: number;
+  maxAgeDays: number;     // 0 = no forced rotation
+  rotationRoles: Role[];
+}
+
+type PasswordOwner = Pick<User, 'id' | 'email' | 'first_name' | 'last_name' | 'password_hash'>;
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MAX_LENGTH = 128;
+const PERSONAL_TOKEN_MIN_LENGTH = 4;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class PasswordPolicyService implements OnModuleInit {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+
+  readonly policy: PasswordPolicy = {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH ?? '12', 10),
+    maxLength: MAX_LENGTH,
+    historySize: parseInt(process.env.PASSWORD_HISTORY ?? '5', 10),
+    maxAgeDays: parseInt(process.env.PASSWORD_MAX_AGE_DAYS ?? '0', 10),
+    rotationRoles: [Role.OWNER, Role.MANAGER],
+  };
+
+  /** Whole passwords, only those long enough to pass the length rule. */
+  private readonly blocklist = new Set(
+    COMMON_PASSWORDS.map((p) => p.toLowerCase()).filter((p) => p.length >= this.policy.minLength),
+  );
+
+  /** Base words of the bundled list, matched against passwordBase(). */
+  private readonly blockedBases = new Set(
+    COMMON_PASSWORDS.map(passwordBase).filter((base) => base.length >= BASE_MIN_LENGTH),
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly properties: PropertyService,
+  ) {}
+
+  /** Merge the optional external blocklist into the bundled one, filtered the same way. */
+  async onModuleInit(): Promise<void> {
+    const file = process.env.PASSWORD_BLOCKLIST_FILE;
+    if (!file) return;
+
+    const contents = await fs.readFile(file, 'utf8');
+    for (const line of contents.split(/\r?\n/)) {
+      const entry = line.trim().toLowerCase();
+      if (entry.length >= this.policy.minLength) this.blocklist.add(entry);
+    }
+    this.logger.log(`Password blocklist loaded: ${this.blocklist.size} entries`);
+  }
+
+  /**
+   * All violations for a candidate password. Pass the user to also check
+   * personal info and password history.
+   */
+  async check(password: string, user?: PasswordOwner): Promise<PasswordViolation[]> {
+    const violations: PasswordViolation[] = [];
+    const { minLength, maxLength } = this.policy;
+
+    if (password.length < minLength) {
+      violations.push({
+        code: 'TOO_SHORT',
+        message: `Use at least ${minLength} characters`,
+      });
+    }
+    if (password.length > maxLength) {
+      violations.push({
+        code: 'TOO_LONG',
+        message: `Use at most ${maxLength} characters`,
+      });
+    }
+    if (this.isCommon(password)) {
+      violations.push({
+        code: 'COMMON_PASSWORD',
+        message: 'This password is too common or appears in known data breaches',
+      });
+    }
+
+    if (user) {
+      if (this.containsPersonalInfo(password, user)) {
+        violations.push({
+          code: 'CONTAINS_PERSONAL_INFO',
+          message: 'Do not include your name or email address',
+        });
+      }
+      if (await this.wasRecentlyUsed(password, user)) {
+        violations.push({
+          code: 'RECENTLY_USED',
+          message: `Choose a password you have not used in your last ${this.policy.historySize} changes`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /** Throw 400 with `violations` if the password fails the policy. */
+  async assertAcceptable(password: string, user?: PasswordOwner): Promise<void> {
+    const violations = await this.check(password, user);
+    if (violations.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'PasswordPolicyViolation',
+        message: 'Password does not meet the password policy',
+        violations,
+      });
+    }
+  }
+
+  /** Keep the hash being replaced so it cannot be reused, pruning old entries. */
+  async remember(userId: string, previousHash: string): Promise<void> {
+    if (this.policy.historySize <= 0) return;
+
+    await this.prisma.passwordHistory.create({
+      data: { user_id: userId, password_hash: previousHash },
+    });
+
+    const stale = await this.prisma.passwordHistory.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'desc' },
+      skip: this.policy.historySize,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await this.prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((s) => s.id) } },
+      });
+    }
+  }
+
+  /**
+   * Privileged roles must rotate after maxAgeDays when rotation is enabled,
+   * whether the role is held globally or on any property.
+   */
+  async isExpired(user: Pick<User, 'id' | 'password_changed_at'>): Promise<boolean> {
+    const { maxAgeDays, rotationRoles } = this.policy;
+    if (maxAgeDays <= 0) return false;
+
+    const roles = await this.properties.heldRoles(user.id);
+    if (!roles.some((role) => rotationRoles.includes(role))) return false;
+
+    const ageMs = Date.now() - user.password_changed_at.getTime();
+    return ageMs > maxAgeDays * 24 * 60 * 60 * 1000;
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private isCommon(password: string): boolean {
+    if (this.blocklist.has(password.toLowerCase())) return true;
+
+    const base = passwordBase(password);
+    return this.blockedBases.has(base) || this.blocklist.has(base);
+  }
+
+  private containsPersonalInfo(password: string, user: PasswordOwner): boolean {
+    const lower = password.toLowerCase();
+    const tokens = [user.email.split('@')[0], user.first_name, user.last_name]
+      .map((t) => t.toLowerCase())
+      .filter((t) => t.length >= PERSONAL_TOKEN_MIN_LENGTH);
+    return tokens.some((t) => lower.includes(t));
+  }
+
+  /** The current password counts as the most recent one. */
+  private async wasRecentlyUsed(password: string, user: PasswordOwner): Promise<boolean> {
+    if (this.policy.historySize <= 0) return false;
+
+    const history = await this.prisma.passwordHistory.findMany({
+      where: { user_id: user.id },
+      orderBy: { created_at: 'desc' },
+      take: this.policy.historySize - 1,
+      select: { password_hash: true },
+    });
+
+    const hashes = [user.password_hash, ...history.map((h) => h.password_hash)];
+    for (const hash of hashes) {
+      if (await argon2.verify(hash, password).catch(() => false)) return true;
+    }
+    return false;
+  }
+}
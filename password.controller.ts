@@ -0,0 +1,82 @@
+/**
+ * BBH HMS – PasswordController
+ * Endpoints: GET /auth/password/policy, POST /auth/password/change,
+ *            POST /auth/password/forgot, POST /auth/password/reset
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { User } from '@prisma/client';
+import {
+  PasswordService,
+  ChangePasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+} from './password.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { AuthGuard } from './auth.guard';
+import { Public } from './decorators/public.decorator';
+import { AllowDuringMaintenance } from './decorators/allow-during-maintenance.decorator';
+import { AllowExpiredPassword } from './decorators/allow-expired-password.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@Controller('auth/password')
+@AllowDuringMaintenance()
+export class PasswordController {
+  constructor(
+    private readonly passwords: PasswordService,
+    private readonly policy: PasswordPolicyService,
+  ) {}
+
+  /** Rules for the admin UI to show next to password fields. */
+  @Public()
+  @Get('policy')
+  getPolicy() {
+    const { minLength, maxLength, historySize } = this.policy.policy;
+    return { minLength, maxLength, historySize };
+  }
+
+  @Post('change')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  @AllowExpiredPassword()
+  async change(
+    @CurrentUser() user: User,
+    @Body() dto: ChangePasswordDto,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.passwords.changePassword(user, dto, req);
+    return { message: 'Password changed. Other sessions have been signed out.' };
+  }
+
+  /** Same response, in the same time, whether or not the email exists. */
+  @Public()
+  @Post('forgot')
+  @HttpCode(HttpStatus.OK)
+  async forgot(
+    @Body() dto: ForgotPasswordDto,
+    @Req() req: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
+    await this.passwords.requestReset(dto, req, reply);
+    return { message: 'If the account exists, a reset link has been sent.' };
+  }
+
+  @Public()
+  @Post('reset')
+  @HttpCode(HttpStatus.OK)
+  async reset(@Body() dto: ResetPasswordDto, @Req() req: FastifyRequest) {
+    await this.passwords.resetPassword(dto, req);
+    return { message: 'Password reset. Please log in with your new password.' };
+  }
+}
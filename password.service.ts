@@ -0,0 +1,320 @@
+/**
+ * BBH HMS – PasswordService
+ * Self-service password change and emailed reset links.
+ * Reset tokens are single-use, expire after one hour and are stored hashed.
+ * Every password change revokes the user's other sessions and must pass
+ * the PasswordPolicyService rules.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { IsEmail, IsString, Length, MaxLength } from 'class-validator';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { MailService } from '../mail/mail.service';
+import { AuthService } from './auth.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { PasswordPolicyService } from './password-policy.service';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Prisma, User } from '@prisma/client';
+import * as argon2 from 'argon2';
+import { createHash, randomBytes } from 'crypto';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/** Invitations use the reset flow with a longer-lived token. */
+const INVITE_TOKEN_TTL_MS = 72 * 60 * 60 * 1000;
+
+/** Ignore repeat "forgot password" requests inside this window (mail flooding). */
+const RESET_REQUEST_COOLDOWN_MS = 60 * 1000;
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+// Length and strength rules are reported by PasswordPolicyService instead,
+// so the admin UI gets structured violations.
+
+export class ChangePasswordDto {
+  @IsString() currentPassword!: string;
+  @IsString() @MaxLength(1024) newPassword!: string;
+}
+
+export class ForgotPasswordDto {
+  @IsEmail() email!: string;
+}
+
+export class ResetPasswordDto {
+  @IsString() @Length(64, 64) token!: string;
+  @IsString() @MaxLength(1024) newPassword!: string;
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class PasswordService {
+  private readonly logger = new Logger(PasswordService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly mail: MailService,
+    private readonly authService: AuthService,
+    private readonly throttle: LoginThrottleService,
+    private readonly policy: PasswordPolicyService,
+  ) {}
+
+  /**
+   * Change the caller's password. Their current session stays signed in;
+   * every other session is revoked.
+   */
+  async changePassword(
+    user: User,
+    dto: ChangePasswordDto,
+    req: FastifyRequest,
+  ): Promise<void> {
+    const isValid = await argon2.verify(user.password_hash, dto.currentPassword);
+    if (!isValid) throw new UnauthorizedException('Current password is incorrect');
+
+    await this.setPassword(user, dto.newPassword);
+    await this.authService.revokeAllSessionsForUser(
+      user.id,
+      user.id,
+      req.ip,
+      req.session.sessionId,
+    );
+    await this.authService.clearPasswordExpired(req);
+
+    await this.audit.log({
+      action: 'USER_PASSWORD_CHANGED',
+      resource: 'User',
+      resourceId: user.id,
+      performedById: user.id,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  /**
+   * Email a reset link if the address belongs to an active account.
+   * Always resolves the same way so the response reveals nothing: both paths
+   * do one lookup, and the token and mail are handled after the response.
+   */
+  async requestReset(
+    dto: ForgotPasswordDto,
+    req: FastifyRequest,
+    reply?: FastifyReply,
+  ): Promise<void> {
+    await this.throttle.assertResetRequestAllowed(req.ip, reply);
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: dto.email.toLowerCase().trim() },
+    });
+    if (!user || !user.is_active) return;
+
+    const userAgent = req.headers['user-agent'];
+    void this.sendResetLink(user, req.ip, userAgent).catch((err: any) =>
+      this.logger.error(`Password reset for ${user.email} failed: ${err.message}`),
+    );
+  }
+
+  /**
+   * Token for an invitation; pass the transaction creating the user so the
+   * account never exists without one.
+   */
+  async createInviteToken(
+    userId: string,
+    ipAddress?: string,
+    db: Prisma.TransactionClient = this.prisma,
+  ): Promise<string> {
+    return this.createToken(userId, INVITE_TOKEN_TTL_MS, ipAddress, db);
+  }
+
+  /**
+   * Email a new staff member a link to choose their first password.
+   * Returns false if the mail could not be sent; the link stays valid.
+   */
+  async sendInvite(
+    user: User,
+    invitedBy: User,
+    token: string,
+    ipAddress?: string,
+  ): Promise<boolean> {
+    try {
+      await this.mail.send({
+        to: user.email,
+        subject: 'Your BBH HMS staff account',
+        text: [
+          `Hello ${user.first_name},`,
+          '',
+          `${invitedBy.first_name} ${invitedBy.last_name} created a BBH HMS account for you.`,
+          'Open this link within 72 hours to choose your password:',
+          '',
+          this.mail.adminUrl(`/reset-password?token=${token}`),
+        ].join('\n'),
+      });
+    } catch (err: any) {
+      this.logger.error(`Could not send invitation email to ${user.email}: ${err.message}`);
+      return false;
+    }
+
+    await this.audit.log({
+      action: 'USER_INVITED',
+      resource: 'User',
+      resourceId: user.id,
+      performedById: invitedBy.id,
+      ipAddress,
+    });
+    return true;
+  }
+
+  /**
+   * Set a new password from an emailed token. Revokes all sessions and
+   * lifts any login lockout on the account.
+   */
+  async resetPassword(dto: ResetPasswordDto, req: FastifyRequest): Promise<void> {
+    const resetToken = await this.prisma.passwordResetToken.findUnique({
+      where: { token_hash: this.hashToken(dto.token) },
+      include: { user: true },
+    });
+
+    if (
+      !resetToken ||
+      resetToken.used_at ||
+      resetToken.expires_at <= new Date() ||
+      !resetToken.user.is_active
+    ) {
+      throw new BadRequestException('Reset link is invalid or has expired');
+    }
+
+    const { user } = resetToken;
+
+    // A policy violation throws here and leaves the token usable for a retry
+    await this.policy.assertAcceptable(dto.newPassword, user);
+    const passwordHash = await this.authService.hashPassword(dto.newPassword);
+
+    // The token is claimed in the same transaction as the password write, so
+    // two requests racing with one link cannot both set a password
+    await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, used_at: null },
+        data: { used_at: new Date() },
+      });
+      if (claimed.count !== 1) {
+        throw new BadRequestException('Reset link is invalid or has expired');
+      }
+
+      await tx.user.update({
+        where: { id: user.id },
+        data: { password_hash: passwordHash, password_changed_at: new Date() },
+      });
+
+      // Consume every outstanding token, not just this one
+      await tx.passwordResetToken.updateMany({
+        where: { user_id: user.id, used_at: null },
+        data: { used_at: new Date() },
+      });
+    });
+    await this.policy.remember(user.id, user.password_hash);
+
+    await this.authService.revokeAllSessionsForUser(user.id, user.id, req.ip);
+    await this.throttle.unlock([user.email]);
+
+    await this.audit.log({
+      action: 'USER_PASSWORD_RESET',
+      resource: 'User',
+      resourceId: user.id,
+      performedById: user.id,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+
+    this.logger.log(`Password reset completed for ${user.email}`);
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /** Runs after the "forgot password" response has been sent. */
+  private async sendResetLink(user: User, ipAddress: string, userAgent?: string): Promise<void> {
+    const recent = await this.prisma.passwordResetToken.findFirst({
+      where: {
+        user_id: user.id,
+        created_at: { gt: new Date(Date.now() - RESET_REQUEST_COOLDOWN_MS) },
+      },
+    });
+    if (recent) return;
+
+    const token = await this.createToken(user.id, RESET_TOKEN_TTL_MS, ipAddress);
+
+    try {
+      await this.mail.send({
+        to: user.email,
+        subject: 'Reset your BBH HMS password',
+        text: [
+          `Hello ${user.first_name},`,
+          '',
+          'Someone (hopefully you) asked to reset your BBH HMS password.',
+          'Open this link within one hour to choose a new one:',
+          '',
+          this.mail.adminUrl(`/reset-password?token=${token}`),
+          '',
+          'If you did not ask for this, ignore this email. Your password stays unchanged.',
+        ].join('\n'),
+      });
+    } catch (err) {
+      await this.prisma.passwordResetToken.deleteMany({
+        where: { token_hash: this.hashToken(token) },
+      });
+      throw err;
+    }
+
+    await this.audit.log({
+      action: 'USER_PASSWORD_RESET_REQUESTED',
+      resource: 'User',
+      resourceId: user.id,
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  /** Policy check, then store the new hash and remember the old one. */
+  private async setPassword(user: User, newPassword: string): Promise<void> {
+    await this.policy.assertAcceptable(newPassword, user);
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password_hash: await this.authService.hashPassword(newPassword),
+        password_changed_at: new Date(),
+      },
+    });
+    await this.policy.remember(user.id, user.password_hash);
+  }
+
+  /** Store a new token (hashed) and return its plaintext for the email. */
+  private async createToken(
+    userId: string,
+    ttlMs: number,
+    requestedIp?: string,
+    db: Prisma.TransactionClient = this.prisma,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+    await db.passwordResetToken.create({
+      data: {
+        user_id: userId,
+        token_hash: this.hashToken(token),
+        expires_at: new Date(Date.now() + ttlMs),
+        requested_ip: requestedIp,
+      },
+    });
+    return token;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * BBH HMS – PermissionsController
+ * Endpoints: GET /admin/permissions, PUT /admin/permissions/roles/:role,
+ *            DELETE /admin/permissions/roles/:role,
+ *            GET /admin/permissions/users/:id, PUT /admin/permissions/users/:id
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { Role } from '@prisma/client';
+import type { User } from '@prisma/client';
+import {
+  PermissionsService,
+  SetRolePermissionsDto,
+  SetUserOverridesDto,
+} from './permissions.service';
+import { AuthGuard } from './auth.guard';
+import { PermissionsGuard, RequirePermission } from './permissions.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+
+@Controller('admin/permissions')
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermission('permissions:manage')
+export class PermissionsController {
+  constructor(private readonly permissions: PermissionsService) {}
+
+  /** Permission catalog and the mapping of every role. */
+  @Get()
+  async describe() {
+    return this.permissions.describe();
+  }
+
+  @Put('roles/:role')
+  async setRole(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Body() dto: SetRolePermissionsDto,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    const permissions = await this.permissions.setRolePermissions(
+      role,
+      dto.permissions,
+      user.id,
+      req.ip,
+    );
+    return { role, permissions };
+  }
+
+  /** Revert a role to the built-in defaults. */
+  @Delete('roles/:role')
+  @HttpCode(HttpStatus.OK)
+  async resetRole(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    const permissions = await this.permissions.resetRolePermissions(role, user.id, req.ip);
+    return { role, permissions };
+  }
+
+  @Get('users/:id')
+  async getUser(@Param('id', ParseUUIDPipe) id: string) {
+    return this.permissions.getUserOverrides(id);
+  }
+
+  /** Replace the user's grants and denies. */
+  @Put('users/:id')
+  async setUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: SetUserOverridesDto,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.permissions.setUserOverrides(id, dto.overrides, user.id, req.ip);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * BBH HMS – PermissionsGuard & RequirePermission Decorator
+ * Fine-grained access control on top of the Role enum.
+ * Use after AuthGuard: @UseGuards(AuthGuard, PermissionsGuard)
+ * API key requests need the permissions on both the key and its owner.
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsService } from './permissions.service';
+import type { Permission } from './permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Require every listed permission on a route/controller.
+ * @example @RequirePermission('config:update')
+ */
+export const RequirePermission = (
+  ...permissions: Permission[]
+): MethodDecorator & ClassDecorator => SetMetadata(PERMISSIONS_KEY, permissions);
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissions: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    // No permissions specified → any authenticated user is allowed
+    if (!required || required.length === 0) return true;
+
+    const request = context.switchToHttp().getRequest();
+    if (!request.user) throw new ForbiddenException('Not authenticated');
+
+    const keyPermissions: string[] | undefined = request.apiKey?.permissions;
+    const keyAllows = !keyPermissions || required.every((p) => keyPermissions.includes(p));
+
+    if (!keyAllows || !(await this.permissions.hasAll(request.user, required))) {
+      throw new ForbiddenException(
+        `Access denied. Required permissions: ${required.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
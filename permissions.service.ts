@@ -0,0 +1,230 @@
+/**
+ * BBH HMS – PermissionsService
+ * Resolves the effective permissions of a user:
+ *   role set (stored or default) + user GRANTs − user DENYs.
+ * OWNER always has every permission.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsArray, IsEnum, IsString, ValidateNested } from 'class-validator';
+import { PermissionEffect, Role } from '@prisma/client';
+import type { User } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_CATALOG,
+  Permission,
+  isPermission,
+} from './permissions';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export class SetRolePermissionsDto {
+  @IsArray() @IsString({ each: true }) permissions!: string[];
+}
+
+export class PermissionOverrideDto {
+  @IsString() permission!: string;
+  @IsEnum(PermissionEffect) effect!: PermissionEffect;
+}
+
+export class SetUserOverridesDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PermissionOverrideDto)
+  overrides!: PermissionOverrideDto[];
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Role sets change rarely; cache them briefly per process. */
+const ROLE_CACHE_TTL_MS = 30_000;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class PermissionsService {
+  private roleCache: { sets: Map<Role, Permission[]>; loadedAt: number } | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+  ) {}
+
+  /** Effective permissions of a user, sorted. */
+  async resolve(user: Pick<User, 'id' | 'role'>): Promise<Permission[]> {
+    if (user.role === Role.OWNER) return [...ALL_PERMISSIONS];
+
+    const [roleSets, overrides] = await Promise.all([
+      this.getRoleSets(),
+      this.prisma.userPermissionOverride.findMany({ where: { user_id: user.id } }),
+    ]);
+
+    const effective = new Set<Permission>(roleSets.get(user.role) ?? []);
+    for (const override of overrides) {
+      if (!isPermission(override.permission)) continue;
+      if (override.effect === PermissionEffect.GRANT) effective.add(override.permission);
+      else effective.delete(override.permission);
+    }
+
+    return [...effective].sort();
+  }
+
+  async hasAll(user: Pick<User, 'id' | 'role'>, required: Permission[]): Promise<boolean> {
+    const effective = new Set(await this.resolve(user));
+    return required.every((p) => effective.has(p));
+  }
+
+  /** Catalog plus the current mapping for every role. */
+  async describe() {
+    const roleSets = await this.getRoleSets();
+    const customised = await this.prisma.rolePermissionSet.findMany({ select: { role: true } });
+    const customisedRoles = new Set(customised.map((c) => c.role));
+
+    return {
+      catalog: Object.entries(PERMISSION_CATALOG).map(([key, description]) => ({
+        key,
+        description,
+      })),
+      roles: Object.values(Role).map((role) => ({
+        role,
+        permissions: role === Role.OWNER ? ALL_PERMISSIONS : roleSets.get(role) ?? [],
+        customised: customisedRoles.has(role),
+        editable: role !== Role.OWNER,
+      })),
+    };
+  }
+
+  async setRolePermissions(
+    role: Role,
+    permissions: string[],
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<Permission[]> {
+    if (role === Role.OWNER) {
+      throw new BadRequestException('OWNER always has every permission');
+    }
+    const validated = this.validate(permissions);
+    const before = (await this.getRoleSets()).get(role) ?? [];
+
+    await this.prisma.rolePermissionSet.upsert({
+      where: { role },
+      update: { permissions: validated, updated_by_id: performedById },
+      create: { role, permissions: validated, updated_by_id: performedById },
+    });
+    this.roleCache = null;
+
+    await this.audit.log({
+      action: 'ROLE_PERMISSIONS_UPDATED',
+      resource: 'RolePermissionSet',
+      resourceId: role,
+      oldValue: { permissions: before },
+      newValue: { permissions: validated },
+      performedById,
+      ipAddress,
+    });
+
+    return validated;
+  }
+
+  /** Drop a role's customised set so it follows the code defaults again. */
+  async resetRolePermissions(
+    role: Role,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<Permission[]> {
+    await this.prisma.rolePermissionSet.deleteMany({ where: { role } });
+    this.roleCache = null;
+
+    await this.audit.log({
+      action: 'ROLE_PERMISSIONS_RESET',
+      resource: 'RolePermissionSet',
+      resourceId: role,
+      newValue: { permissions: DEFAULT_ROLE_PERMISSIONS[role] },
+      performedById,
+      ipAddress,
+    });
+
+    return DEFAULT_ROLE_PERMISSIONS[role];
+  }
+
+  async getUserOverrides(userId: string) {
+    return this.prisma.userPermissionOverride.findMany({
+      where: { user_id: userId },
+      select: { permission: true, effect: true, granted_by_id: true, created_at: true },
+      orderBy: { permission: 'asc' },
+    });
+  }
+
+  /** Replace all overrides of a user. */
+  async setUserOverrides(
+    userId: string,
+    overrides: PermissionOverrideDto[],
+    performedById: string,
+    ipAddress?: string,
+  ) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    this.validate(overrides.map((o) => o.permission));
+    const before = await this.getUserOverrides(userId);
+
+    await this.prisma.$transaction([
+      this.prisma.userPermissionOverride.deleteMany({ where: { user_id: userId } }),
+      this.prisma.userPermissionOverride.createMany({
+        data: overrides.map((o) => ({
+          user_id: userId,
+          permission: o.permission,
+          effect: o.effect,
+          granted_by_id: performedById,
+        })),
+      }),
+    ]);
+
+    await this.audit.log({
+      action: 'USER_PERMISSIONS_UPDATED',
+      resource: 'User',
+      resourceId: userId,
+      oldValue: { overrides: before.map(({ permission, effect }) => ({ permission, effect })) },
+      newValue: { overrides: overrides.map(({ permission, effect }) => ({ permission, effect })) },
+      performedById,
+      ipAddress,
+    });
+
+    return this.getUserOverrides(userId);
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async getRoleSets(): Promise<Map<Role, Permission[]>> {
+    if (this.roleCache && Date.now() - this.roleCache.loadedAt < ROLE_CACHE_TTL_MS) {
+      return this.roleCache.sets;
+    }
+
+    const stored = await this.prisma.rolePermissionSet.findMany();
+    const sets = new Map<Role, Permission[]>(
+      Object.entries(DEFAULT_ROLE_PERMISSIONS) as [Role, Permission[]][],
+    );
+    for (const row of stored) {
+      sets.set(row.role, row.permissions.filter(isPermission));
+    }
+
+    this.roleCache = { sets, loadedAt: Date.now() };
+    return sets;
+  }
+
+  private validate(permissions: string[]): Permission[] {
+    const unknown = permissions.filter((p) => !isPermission(p));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+    return [...new Set(permissions as Permission[])].sort();
+  }
+}
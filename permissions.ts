@@ -0,0 +1,59 @@
+/**
+ * BBH HMS – Permission Catalog
+ * Every permission a route can require, with the defaults per role.
+ * Role mappings can be customised in the database (RolePermissionSet);
+ * roles without a stored set use the defaults below.
+ */
+
+import { Role } from '@prisma/client';
+
+export const PERMISSION_CATALOG = {
+  'config:read':        'View hotel configuration',
+  'config:update':      'Change hotel configuration and branding',
+  'modules:manage':     'Enable or disable modules and edit their settings',
+  'users:read':         'View staff accounts',
+  'users:manage':       'Create, edit, deactivate staff and reset PINs/lockouts',
+  'terminals:manage':   'Register and revoke POS / kitchen terminals',
+  'access:manage':      'Edit shift access windows and grant out-of-hours access',
+  'permissions:manage': 'Edit role permissions and per-user grants',
+  'api_keys:manage':    'Create and revoke API keys for integrations',
+  'audit:read':         'Search the audit log',
+  'audit:export':       'Export the audit log (CSV / NDJSON) for compliance requests',
+  'audit:archive':      'Verify the audit chain, list archives and restore them for investigations',
+  'reports:read':       'View and export duty logs and shift activity reports',
+  'website:deploy':     'Update the guest website from git',
+  'properties:manage':  'Add hotels to the group and assign staff to them',
+  'maintenance:manage': 'Schedule maintenance windows, which take every property offline',
+} as const;
+
+export type Permission = keyof typeof PERMISSION_CATALOG;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_CATALOG) as Permission[];
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSION_CATALOG, value);
+}
+
+/**
+ * OWNER is the superuser and always resolves to ALL_PERMISSIONS,
+ * so an edit can never lock the owners out.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.OWNER]: ALL_PERMISSIONS,
+  [Role.MANAGER]: [
+    'config:read',
+    'config:update',
+    'modules:manage',
+    'users:read',
+    'users:manage',
+    'terminals:manage',
+    'access:manage',
+    'audit:read',
+    'reports:read',
+    'website:deploy',
+  ],
+  [Role.FRONT_DESK]: [],
+  [Role.HOUSEKEEPING]: [],
+  [Role.KITCHEN]: [],
+  [Role.MAINTENANCE]: [],
+};
@@ -0,0 +1,119 @@
+/**
+ * BBH HMS – Properties Controller
+ * /api/admin/properties – hotels in the group and who works on each.
+ *
+ * GET  /mine lists the properties the caller can switch to (send the id or
+ * slug as the X-Property header); everything else needs properties:manage.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { User } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { AuthService } from '../../../libs/auth/auth.service';
+import { MFA_REQUIRED_ROLES } from '../../../libs/auth/mfa.service';
+import {
+  CreatePropertyDto,
+  PropertyService,
+  SetPropertyMemberDto,
+  UpdatePropertyDto,
+} from '../../../libs/properties/property.service';
+
+@Controller('admin/properties')
+@UseGuards(AuthGuard, PermissionsGuard)
+export class PropertiesController {
+  constructor(
+    private readonly properties: PropertyService,
+    private readonly auth: AuthService,
+  ) {}
+
+  @Get('mine')
+  async mine(@CurrentUser() user: User) {
+    return this.properties.listForUser(user);
+  }
+
+  @Get()
+  @RequirePermission('properties:manage')
+  async list() {
+    return this.properties.list();
+  }
+
+  @Get(':id')
+  @RequirePermission('properties:manage')
+  async get(@Param('id', ParseUUIDPipe) id: string) {
+    return this.properties.get(id);
+  }
+
+  /** Starts with default branding and every module disabled. */
+  @Post()
+  @RequirePermission('properties:manage')
+  async create(
+    @Body() dto: CreatePropertyDto,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.properties.create(dto, user.id, req.ip);
+  }
+
+  @Patch(':id')
+  @RequirePermission('properties:manage')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdatePropertyDto,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.properties.update(id, dto, user.id, req.ip);
+  }
+
+  @Get(':id/members')
+  @RequirePermission('properties:manage')
+  async listMembers(@Param('id', ParseUUIDPipe) id: string) {
+    return this.properties.listMembers(id);
+  }
+
+  @Put(':id/members/:userId')
+  @RequirePermission('properties:manage')
+  async setMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: SetPropertyMemberDto,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    const member = await this.properties.setMember(id, userId, dto.role, user.id, req.ip);
+    if (MFA_REQUIRED_ROLES.includes(dto.role)) {
+      await this.auth.revokeSessionsWithoutMfa(userId, user.id, req.ip);
+    }
+    return member;
+  }
+
+  @Delete(':id/members/:userId')
+  @RequirePermission('properties:manage')
+  @HttpCode(HttpStatus.OK)
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.properties.removeMember(id, userId, user.id, req.ip);
+    return { message: 'Member removed' };
+  }
+}
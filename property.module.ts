@@ -0,0 +1,19 @@
+/**
+ * BBH HMS – Property Module
+ * Global: AuthGuard, the module flags and the config controllers all need
+ * the property of the current request, and clear its cached public config.
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { PropertyService } from './property.service';
+import { PublicConfigCache } from './public-config-cache.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Global()
+@Module({
+  imports: [PrismaModule, AuditModule],
+  providers: [PropertyService, PublicConfigCache],
+  exports: [PropertyService, PublicConfigCache],
+})
+export class PropertyModule {}
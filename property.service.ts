@@ -0,0 +1,392 @@
+/**
+ * BBH HMS – PropertyService
+ * Hotels in the group. Each property has its own GlobalConfig row (branding,
+ * currency, timezone) and its own module flags.
+ *
+ * The property of a request is, in order: the `X-Property` header (id or
+ * slug), the host name (Property.hostnames), or the default property.
+ * AuthGuard additionally checks the user's role on it and, without the
+ * header, falls back to the first property the user has a role on.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsISO4217CurrencyCode,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ModuleName, Role } from '@prisma/client';
+import type { GlobalConfig, Prisma, Property, User } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { MODULE_CONFIG_SCHEMAS } from '../modules/module-config';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const normaliseHostnames = ({ value }: { value: unknown }) =>
+  Array.isArray(value) ? value.map((host) => String(host).trim().toLowerCase()) : value;
+
+export class CreatePropertyDto {
+  @Matches(SLUG_PATTERN, { message: 'slug must be lowercase letters, digits and dashes' })
+  @MaxLength(50)
+  slug!: string;
+  @IsString() @MaxLength(100) name!: string;
+  @IsOptional() @IsArray() @ArrayMaxSize(20) @IsString({ each: true }) @MaxLength(253, { each: true })
+  @Transform(normaliseHostnames)
+  hostnames?: string[];
+  @IsOptional() @IsISO4217CurrencyCode()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  currency?: string;
+  @IsOptional() @IsTimeZone() timezone?: string;
+}
+
+export class UpdatePropertyDto {
+  @IsOptional() @IsString() @MaxLength(100) name?: string;
+  @IsOptional() @IsArray() @ArrayMaxSize(20) @IsString({ each: true }) @MaxLength(253, { each: true })
+  @Transform(normaliseHostnames)
+  hostnames?: string[];
+  @IsOptional() @IsBoolean() isActive?: boolean;
+}
+
+export class SetPropertyMemberDto {
+  @IsEnum(Role) role!: Role;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const PROPERTY_HEADER = 'x-property';
+
+/** Resolved on every request; cache the (small) property list briefly. */
+const CACHE_TTL_MS = 30_000;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class PropertyService {
+  private cache: { properties: Property[]; loadedAt: number } | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+  ) {}
+
+  async list(): Promise<Property[]> {
+    return (await this.load()).properties;
+  }
+
+  async getDefault(): Promise<Property> {
+    const { properties } = await this.load();
+    const fallback = properties.find((p) => p.is_default) ?? properties[0];
+    if (!fallback) throw new NotFoundException('No property is configured');
+    return fallback;
+  }
+
+  /** Active property serving a host name (port ignored), if any. */
+  async findByHost(host?: string): Promise<Property | null> {
+    const name = host?.split(':')[0].toLowerCase();
+    if (!name) return null;
+    const { properties } = await this.load();
+    return properties.find((p) => p.is_active && p.hostnames.includes(name)) ?? null;
+  }
+
+  /** The property a request is for: X-Property header, host name, then the default. */
+  async resolve(request: any): Promise<Property> {
+    const ref = request.headers?.[PROPERTY_HEADER];
+    if (typeof ref === 'string' && ref) {
+      const { properties } = await this.load();
+      const property = properties.find((p) => p.is_active && (p.id === ref || p.slug === ref));
+      if (!property) throw new BadRequestException(`Unknown property "${ref}"`);
+      return property;
+    }
+
+    return (await this.findByHost(request.hostname)) ?? this.getDefault();
+  }
+
+  /**
+   * The request's property and the user's role on it (null without access).
+   * Without an X-Property header, a user with no role there is placed on the
+   * first property they have a role on.
+   */
+  async resolveForUser(
+    request: any,
+    user: Pick<User, 'id' | 'role'>,
+  ): Promise<{ property: Property; role: Role | null }> {
+    const property = await this.resolve(request);
+    const role = await this.roleFor(user, property);
+    if (!role && !request.headers?.[PROPERTY_HEADER]) {
+      const [first] = await this.listForUser(user);
+      if (first) {
+        const { role: firstRole, ...firstProperty } = first;
+        return { property: firstProperty, role: firstRole };
+      }
+    }
+    return { property, role };
+  }
+
+  /**
+   * The user's role on a property, or null without access. OWNERs own every
+   * property; users without memberships keep their role on the default one.
+   */
+  async roleFor(user: Pick<User, 'id' | 'role'>, property: Property): Promise<Role | null> {
+    if (user.role === Role.OWNER) return Role.OWNER;
+
+    const memberships = await this.prisma.propertyMember.findMany({
+      where: { user_id: user.id },
+      select: { property_id: true, role: true },
+    });
+    if (memberships.length === 0) {
+      return property.id === (await this.getDefault()).id ? user.role : null;
+    }
+    return memberships.find((m) => m.property_id === property.id)?.role ?? null;
+  }
+
+  /**
+   * Every role the user holds: their own and the one on each property.
+   * Role-based login rules (mandatory MFA, password rotation) go by all of
+   * them, since one session can switch to any of those properties.
+   */
+  async heldRoles(userId: string): Promise<Role[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, properties: { select: { role: true } } },
+    });
+    return user ? [...new Set([user.role, ...user.properties.map((m) => m.role)])] : [];
+  }
+
+  /** Active properties the user can work on, with their role on each. */
+  async listForUser(user: Pick<User, 'id' | 'role'>) {
+    const properties = (await this.list()).filter((p) => p.is_active);
+    if (user.role === Role.OWNER) return properties.map((p) => ({ ...p, role: Role.OWNER }));
+
+    const memberships = await this.prisma.propertyMember.findMany({
+      where: { user_id: user.id },
+      select: { property_id: true, role: true },
+    });
+    if (memberships.length === 0) {
+      return [{ ...(await this.getDefault()), role: user.role }];
+    }
+    return properties.flatMap((p) => {
+      const membership = memberships.find((m) => m.property_id === p.id);
+      return membership ? [{ ...p, role: membership.role }] : [];
+    });
+  }
+
+  /**
+   * Users who work at the property: its members and, on the default
+   * property, users without any membership.
+   */
+  staffWhere(property: Property): Prisma.UserWhereInput {
+    const members: Prisma.UserWhereInput = { properties: { some: { property_id: property.id } } };
+    return property.is_default ? { OR: [members, { properties: { none: {} } }] } : members;
+  }
+
+  /** Users the actor may see and manage here: everyone for OWNERs, else the staff. */
+  staffScope(actor: Pick<User, 'role'>, property: Property): Prisma.UserWhereInput {
+    return actor.role === Role.OWNER ? {} : this.staffWhere(property);
+  }
+
+  /** Users outside the actor's staffScope are reported as not found. */
+  async assertInStaffScope(
+    actor: Pick<User, 'role'>,
+    property: Property,
+    userId: string,
+  ): Promise<void> {
+    const count = await this.prisma.user.count({
+      where: { id: userId, AND: [this.staffScope(actor, property)] },
+    });
+    if (count === 0) throw new NotFoundException('User not found');
+  }
+
+  /** The property's branding and settings row. */
+  async getConfig(propertyId: string): Promise<GlobalConfig | null> {
+    return this.prisma.globalConfig.findUnique({ where: { property_id: propertyId } });
+  }
+
+  async get(id: string) {
+    const property = await this.prisma.property.findUnique({
+      where: { id },
+      include: { config: true, _count: { select: { members: true } } },
+    });
+    if (!property) throw new NotFoundException('Property not found');
+    return property;
+  }
+
+  /** Creates the property with a config row and every module switched off. */
+  async create(dto: CreatePropertyDto, performedById: string, ipAddress?: string) {
+    await this.assertHostnamesFree(dto.hostnames ?? []);
+
+    const property = await this.prisma.$transaction(async (tx) => {
+      if (await tx.property.findUnique({ where: { slug: dto.slug } })) {
+        throw new ConflictException(`A property with slug "${dto.slug}" already exists`);
+      }
+
+      const created = await tx.property.create({
+        data: { slug: dto.slug, name: dto.name, hostnames: dto.hostnames ?? [] },
+      });
+      await tx.globalConfig.create({
+        data: {
+          property_id: created.id,
+          hotel_name: dto.name,
+          ...(dto.currency ? { currency: dto.currency } : {}),
+          ...(dto.timezone ? { timezone: dto.timezone } : {}),
+        },
+      });
+      await tx.moduleState.createMany({
+        data: Object.values(ModuleName).map((name) => ({
+          property_id: created.id,
+          module_name: name,
+          is_enabled: false,
+          config_version: MODULE_CONFIG_SCHEMAS[name].version,
+        })),
+      });
+      return created;
+    });
+    this.cache = null;
+
+    await this.audit.log({
+      action: 'PROPERTY_CREATED',
+      resource: 'Property',
+      resourceId: property.id,
+      newValue: { slug: property.slug, name: property.name, hostnames: property.hostnames },
+      performedById,
+      ipAddress,
+    });
+
+    return property;
+  }
+
+  async update(id: string, dto: UpdatePropertyDto, performedById: string, ipAddress?: string) {
+    const current = await this.get(id);
+    if (dto.hostnames) await this.assertHostnamesFree(dto.hostnames, id);
+    if (dto.isActive === false && current.is_default) {
+      throw new BadRequestException('The default property cannot be deactivated');
+    }
+
+    const updated = await this.prisma.property.update({
+      where: { id },
+      data: {
+        ...(dto.name !== undefined ? { name: dto.name } : {}),
+        ...(dto.hostnames !== undefined ? { hostnames: dto.hostnames } : {}),
+        ...(dto.isActive !== undefined ? { is_active: dto.isActive } : {}),
+      },
+    });
+    this.cache = null;
+
+    await this.audit.log({
+      action: 'PROPERTY_UPDATED',
+      resource: 'Property',
+      resourceId: id,
+      oldValue: { name: current.name, hostnames: current.hostnames, isActive: current.is_active },
+      newValue: { name: updated.name, hostnames: updated.hostnames, isActive: updated.is_active },
+      performedById,
+      ipAddress,
+    });
+
+    return updated;
+  }
+
+  async listMembers(propertyId: string) {
+    await this.get(propertyId);
+    return this.prisma.propertyMember.findMany({
+      where: { property_id: propertyId },
+      include: {
+        user: { select: { id: true, email: true, first_name: true, last_name: true, is_active: true } },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+  }
+
+  /** Adds the user to the property, or changes their role on it. */
+  async setMember(
+    propertyId: string,
+    userId: string,
+    role: Role,
+    performedById: string,
+    ipAddress?: string,
+  ) {
+    await this.get(propertyId);
+    if (role === Role.OWNER) {
+      throw new BadRequestException('OWNER is a group-wide role; change it on the user instead');
+    }
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('User not found');
+
+    const previous = await this.prisma.propertyMember.findUnique({
+      where: { user_id_property_id: { user_id: userId, property_id: propertyId } },
+    });
+    const member = await this.prisma.propertyMember.upsert({
+      where: { user_id_property_id: { user_id: userId, property_id: propertyId } },
+      update: { role },
+      create: { user_id: userId, property_id: propertyId, role },
+    });
+
+    await this.audit.log({
+      action: 'PROPERTY_MEMBER_SET',
+      resource: 'Property',
+      resourceId: propertyId,
+      oldValue: previous ? { userId, role: previous.role } : undefined,
+      newValue: { userId, role },
+      performedById,
+      ipAddress,
+    });
+
+    return member;
+  }
+
+  async removeMember(propertyId: string, userId: string, performedById: string, ipAddress?: string) {
+    const member = await this.prisma.propertyMember.findUnique({
+      where: { user_id_property_id: { user_id: userId, property_id: propertyId } },
+    });
+    if (!member) throw new NotFoundException('User is not a member of this property');
+
+    await this.prisma.propertyMember.delete({
+      where: { user_id_property_id: { user_id: userId, property_id: propertyId } },
+    });
+
+    await this.audit.log({
+      action: 'PROPERTY_MEMBER_REMOVED',
+      resource: 'Property',
+      resourceId: propertyId,
+      oldValue: { userId, role: member.role },
+      performedById,
+      ipAddress,
+    });
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private async load() {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) return this.cache;
+
+    this.cache = {
+      properties: await this.prisma.property.findMany({ orderBy: { created_at: 'asc' } }),
+      loadedAt: Date.now(),
+    };
+    return this.cache;
+  }
+
+  private async assertHostnamesFree(hostnames: string[], exceptId?: string): Promise<void> {
+    const taken = await this.prisma.property.findFirst({
+      where: { hostnames: { hasSome: hostnames }, ...(exceptId ? { id: { not: exceptId } } : {}) },
+      select: { name: true },
+    });
+    if (taken) {
+      throw new ConflictException(`A host name is already used by ${taken.name}`);
+    }
+  }
+}
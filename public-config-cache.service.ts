@@ -0,0 +1,86 @@
+/**
+ * BBH HMS – PublicConfigCache
+ * Redis copy of each property's public config payload, so guest page loads
+ * do not query PostgreSQL. Shared by every API instance:
+ *
+ *   public_config_gen:<propertyId>        – generation, bumped on every change
+ *   public_config:<propertyId>:<gen>      – JSON payload, expires after CACHE_TTL_SECONDS
+ *
+ * Config changes (ConfigRevisionService.apply) and module toggles bump the
+ * generation. A payload is stored under the generation read before it was
+ * built, so one built from data that changed meanwhile lands under a key
+ * nobody reads any more. The expiry only bounds staleness from writes that
+ * bypass the API and cleans up old generations. Redis errors count as misses,
+ * so the endpoint keeps working without it.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { MetricsService } from '../metrics/metrics.service';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const KEY_PREFIX = 'public_config:';
+const GENERATION_PREFIX = 'public_config_gen:';
+const CACHE_TTL_SECONDS = 300;
+
+const HITS_METRIC = 'bbh_public_config_cache_hits_total';
+const MISSES_METRIC = 'bbh_public_config_cache_misses_total';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CachedPublicConfig<T> {
+  /** null on a miss */
+  payload: T | null;
+  /** Pass to set() with a payload built after this lookup. */
+  generation: string;
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class PublicConfigCache {
+  private readonly logger = new Logger(PublicConfigCache.name);
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly metrics: MetricsService,
+  ) {
+    this.metrics.registerCounter(HITS_METRIC, 'Public config requests answered from Redis');
+    this.metrics.registerCounter(MISSES_METRIC, 'Public config requests built from the database');
+  }
+
+  async get<T>(propertyId: string): Promise<CachedPublicConfig<T>> {
+    let generation = '0';
+    let cached: string | null = null;
+    try {
+      generation = (await this.redis.client.get(GENERATION_PREFIX + propertyId)) ?? '0';
+      cached = await this.redis.client.get(`${KEY_PREFIX}${propertyId}:${generation}`);
+    } catch (error: any) {
+      this.logger.warn(`Public config cache read failed: ${error.message}`);
+    }
+
+    this.metrics.increment(cached ? HITS_METRIC : MISSES_METRIC);
+    return { payload: cached ? (JSON.parse(cached) as T) : null, generation };
+  }
+
+  async set(propertyId: string, generation: string, payload: unknown): Promise<void> {
+    try {
+      await this.redis.client.set(
+        `${KEY_PREFIX}${propertyId}:${generation}`,
+        JSON.stringify(payload),
+        { EX: CACHE_TTL_SECONDS },
+      );
+    } catch (error: any) {
+      this.logger.warn(`Public config cache write failed: ${error.message}`);
+    }
+  }
+
+  async invalidate(propertyId: string): Promise<void> {
+    try {
+      await this.redis.client.incr(GENERATION_PREFIX + propertyId);
+    } catch (error: any) {
+      this.logger.error(`Public config cache invalidation failed: ${error.message}`);
+    }
+  }
+}
@@ -28,3 +28,54 @@ export const CurrentUser = createParamDecorator(
     return request.user;
   },
 );
+
+
+// ─── terminal-access.decorator.ts ─────────────────────────────────────────────
+
+export const TERMINAL_ACCESS_KEY = 'terminalAccess';
+
+/**
+ * Allow a route for PIN-login terminal sessions.
+ * Without it, AuthGuard rejects terminal-scoped sessions.
+ * @example @TerminalAccess()
+ */
+export const TerminalAccess = () => SetMetadata(TERMINAL_ACCESS_KEY, true);
+
+
+// ─── allow-expired-password.decorator.ts ──────────────────────────────────────
+
+export const ALLOW_EXPIRED_PASSWORD_KEY = 'allowExpiredPassword';
+
+/**
+ * Allow a route while the session's password has expired (forced rotation).
+ * Everything else answers 403 until the password is changed.
+ * @example @AllowExpiredPassword()
+ */
+export const AllowExpiredPassword = () => SetMetadata(ALLOW_EXPIRED_PASSWORD_KEY, true);
+
+
+// ─── allow-during-maintenance.decorator.ts ────────────────────────────────────
+
+export const ALLOW_DURING_MAINTENANCE_KEY = 'allowDuringMaintenance';
+
+/**
+ * Keep a route available while maintenance mode is on (login, health…).
+ * OWNER sessions reach every route regardless.
+ * @example @AllowDuringMaintenance()
+ */
+export const AllowDuringMaintenance = () => SetMetadata(ALLOW_DURING_MAINTENANCE_KEY, true);
+
+
+// ─── current-property.decorator.ts ────────────────────────────────────────────
+import type { Property } from '@prisma/client';
+
+/**
+ * The property the request is for, as resolved by AuthGuard.
+ * @example getConfig(@CurrentProperty() property: Property) { ... }
+ */
+export const CurrentProperty = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): Property => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.property;
+  },
+);
@@ -0,0 +1,14 @@
+/**
+ * BBH HMS – Redis Module
+ * Global so any module can inject RedisService without importing it.
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { RedisService } from './redis.service';
+
+@Global()
+@Module({
+  providers: [RedisService],
+  exports: [RedisService],
+})
+export class RedisModule {}
@@ -0,0 +1,50 @@
+/**
+ * BBH HMS – RedisService
+ * Single shared Redis connection for the API process.
+ * Used by the session store (main.ts), session indexes and caches.
+ */
+
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createClient } from 'redis';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+@Injectable()
+export class RedisService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisService.name);
+  readonly client: RedisClient;
+
+  constructor() {
+    this.client = createClient({
+      url: process.env.REDIS_URL,
+      socket: { reconnectStrategy: (retries) => Math.min(retries * 50, 2000) },
+    });
+
+    this.client.on('error', (err: Error) =>
+      this.logger.error(`Redis error: ${err.message}`),
+    );
+  }
+
+  /**
+   * Connect on startup. main.ts may already have connected the client
+   * so the session store is ready before the app is initialised.
+   */
+  async onModuleInit(): Promise<void> {
+    await this.connect();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.client.isOpen) await this.client.quit();
+  }
+
+  async connect(): Promise<void> {
+    if (this.client.isOpen) return;
+    await this.client.connect();
+    this.logger.log('Redis connected');
+  }
+}
@@ -79,14 +79,19 @@ pnpm add \
   @nestjs/core \
   @nestjs/platform-fastify \
   @nestjs/config \
+  @nestjs/schedule \
   fastify \
   @fastify/session \
   @fastify/cookie \
   @fastify/helmet \
+  @fastify/multipart \
   connect-redis \
   ioredis \
   redis \
   argon2 \
+  otplib \
+  nodemailer \
+  pdfkit \
   @prisma/client \
   @aws-sdk/client-s3 \
   @aws-sdk/s3-request-presigner \
@@ -101,6 +106,8 @@ pnpm add -D \
   prisma \
   @types/node \
   @types/uuid \
+  @types/nodemailer \
+  @types/pdfkit \
   typescript \
   pino-pretty \
   ts-node
@@ -122,6 +122,39 @@ export class StorageService implements OnModuleInit {
     }
   }
 
+  /**
+   * Write an object under a caller-chosen key (overwrites).
+   * For generated artefacts whose path carries meaning, e.g. archives.
+   */
+  async putObject(
+    bucket: StorageBucket,
+    key: string,
+    body: Buffer,
+    mimeType: string,
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: mimeType,
+        ContentLength: body.length,
+      }),
+    );
+    this.logger.debug(`Wrote ${key} to bucket ${bucket} (${body.length} bytes)`);
+  }
+
+  /**
+   * Read a whole object into memory. Only for objects known to be small.
+   */
+  async readFile(bucket: StorageBucket, key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.streamFile(bucket, key)) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
   /**
    * Delete an object from a bucket.
    */
@@ -132,6 +165,16 @@ export class StorageService implements OnModuleInit {
     this.logger.debug(`Deleted ${key} from ${bucket}`);
   }
 
+  /**
+   * Delete an object by its stored path ("<bucket>/<key>", as kept in
+   * columns like logo_url and avatar_url). Unknown buckets are ignored.
+   */
+  async deleteByPath(objectPath: string): Promise<void> {
+    const [bucket, ...rest] = objectPath.split('/');
+    if (bucket !== BUCKET_PUBLIC && bucket !== BUCKET_PRIVATE) return;
+    await this.deleteFile(bucket, rest.join('/'));
+  }
+
   /**
    * Generate a time-limited presigned URL for private file access.
    * @param expiresInSeconds - Default 1 hour
@@ -0,0 +1,72 @@
+/**
+ * BBH HMS – TerminalController
+ * Endpoints: GET /auth/terminals, POST /auth/terminals, DELETE /auth/terminals/:id
+ * Requires terminals:manage. Registers the devices allowed to use PIN login
+ * on the current property.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { IsString, MaxLength, MinLength } from 'class-validator';
+import type { FastifyRequest } from 'fastify';
+import type { Property, User } from '@prisma/client';
+import { TerminalService } from './terminal.service';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { PermissionsGuard, RequirePermission } from './permissions.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { CurrentProperty } from './decorators/current-property.decorator';
+
+class RegisterTerminalDto {
+  @IsString() @MinLength(1) @MaxLength(100) name!: string;
+}
+
+@Controller('auth/terminals')
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermission('terminals:manage')
+export class TerminalController {
+  constructor(
+    private readonly terminals: TerminalService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Get()
+  async list(@CurrentProperty() property: Property) {
+    return this.terminals.list(property.id);
+  }
+
+  /** Returns the device token once; it cannot be retrieved later. */
+  @Post()
+  async register(
+    @Body() dto: RegisterTerminalDto,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.terminals.register(dto.name, property.id, user.id, req.ip);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    await this.terminals.revoke(id, property.id, user.id, req.ip);
+    await this.authService.revokeTerminalSessions(id);
+    return { message: 'Terminal revoked' };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * BBH HMS – TerminalService
+ * Registry of POS / kitchen terminals that may use PIN login.
+ * Each device holds a random token; only its SHA-256 hash is stored.
+ * Terminals belong to the property they were registered on and are listed
+ * and revoked there only.
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import type { TerminalDevice } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+
+/** Header a terminal sends its device token in. */
+export const TERMINAL_TOKEN_HEADER = 'x-terminal-token';
+
+export interface RegisteredTerminal {
+  id: string;
+  name: string;
+  token: string; // Plaintext – returned once at registration, never again
+}
+
+@Injectable()
+export class TerminalService {
+  private readonly logger = new Logger(TerminalService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+  ) {}
+
+  /**
+   * Register a new terminal and return its device token.
+   * The token must be copied into the terminal's configuration immediately.
+   */
+  async register(
+    name: string,
+    propertyId: string,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<RegisteredTerminal> {
+    const token = randomBytes(32).toString('hex');
+
+    const terminal = await this.prisma.terminalDevice.create({
+      data: {
+        name,
+        token_hash: this.hashToken(token),
+        registered_by_id: performedById,
+        property_id: propertyId,
+      },
+    });
+
+    await this.audit.log({
+      action: 'TERMINAL_REGISTERED',
+      resource: 'TerminalDevice',
+      resourceId: terminal.id,
+      newValue: { name },
+      performedById,
+      ipAddress,
+    });
+
+    this.logger.log(`Terminal "${name}" registered by ${performedById}`);
+    return { id: terminal.id, name: terminal.name, token };
+  }
+
+  async list(propertyId: string) {
+    return this.prisma.terminalDevice.findMany({
+      where: { property_id: propertyId },
+      select: {
+        id: true,
+        name: true,
+        is_active: true,
+        last_seen_at: true,
+        created_at: true,
+      },
+      orderBy: { created_at: 'desc' },
+    });
+  }
+
+  /**
+   * Deactivate a terminal. Its token stops working immediately.
+   */
+  async revoke(
+    terminalId: string,
+    propertyId: string,
+    performedById: string,
+    ipAddress?: string,
+  ): Promise<void> {
+    const terminal = await this.prisma.terminalDevice.findFirst({
+      where: { id: terminalId, property_id: propertyId },
+    });
+    if (!terminal) throw new NotFoundException('Terminal not found');
+
+    await this.prisma.terminalDevice.update({
+      where: { id: terminalId },
+      data: { is_active: false },
+    });
+
+    await this.audit.log({
+      action: 'TERMINAL_REVOKED',
+      resource: 'TerminalDevice',
+      resourceId: terminalId,
+      oldValue: { name: terminal.name, is_active: terminal.is_active },
+      newValue: { is_active: false },
+      performedById,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Resolve an active terminal from its device token.
+   * Throws UnauthorizedException if the token is missing, unknown or revoked.
+   */
+  async verifyToken(token: string | undefined): Promise<TerminalDevice> {
+    if (!token) throw new UnauthorizedException('Terminal token required');
+
+    const terminal = await this.prisma.terminalDevice.findUnique({
+      where: { token_hash: this.hashToken(token) },
+    });
+
+    if (!terminal || !terminal.is_active) {
+      throw new UnauthorizedException('Unknown or revoked terminal');
+    }
+
+    await this.prisma.terminalDevice.update({
+      where: { id: terminal.id },
+      data: { last_seen_at: new Date() },
+    });
+
+    return terminal;
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /** Tokens are high-entropy, so a fast hash is sufficient. */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -23,6 +23,8 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { AuditService } from '../audit/audit.service';
+import { ActivityService } from '../audit/activity.service';
+import { diffChanges } from '../audit/audit-redact';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
@@ -46,7 +48,10 @@ export class UpdaterService {
   private readonly logger = new Logger(UpdaterService.name);
   private isUpdating = false;
 
-  constructor(private readonly audit: AuditService) {}
+  constructor(
+    private readonly audit: AuditService,
+    private readonly activity: ActivityService,
+  ) {}
 
   /**
    * Trigger a `git pull` inside the shared website volume.
@@ -70,6 +75,10 @@ export class UpdaterService {
       const beforeCommit = await this.getGitCommit(WEBSITE_MOUNT);
 
       this.logger.log(`Website update initiated by user ${performedById}`);
+      this.activity.publishSystem('deploy_started', 'website:deploy', {
+        performedById,
+        commit: beforeCommit,
+      });
 
       // ── 4. Run git pull ───────────────────────────────────────────────────
       const { stdout, stderr } = await execAsync('git pull --ff-only', {
@@ -99,15 +108,25 @@ export class UpdaterService {
       };
 
       // ── 6. Audit log ──────────────────────────────────────────────────────
+      const changes = diffChanges(
+        { commit: beforeCommit },
+        { commit: afterCommit, branch, output },
+      );
       await this.audit.log({
         action: 'WEBSITE_UPDATE',
         resource: 'WebsiteSource',
-        oldValue: { commit: beforeCommit },
-        newValue: { commit: afterCommit, branch, output },
+        oldValue: changes?.oldValue,
+        newValue: changes?.newValue,
         performedById,
         ipAddress,
       });
 
+      this.activity.publishSystem('deploy_finished', 'website:deploy', {
+        performedById,
+        branch,
+        commit: afterCommit,
+      });
+
       return result;
     } catch (error: any) {
       this.logger.error(`Website update failed: ${error.message}`, error.stack);
@@ -120,6 +139,11 @@ export class UpdaterService {
         ipAddress,
       });
 
+      this.activity.publishSystem('deploy_failed', 'website:deploy', {
+        performedById,
+        error: error.message,
+      });
+
       throw new InternalServerErrorException(
         `Update failed: ${error.message}`,
       );
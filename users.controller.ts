@@ -0,0 +1,129 @@
+/**
+ * BBH HMS – Staff Users Controller
+ * /api/admin/users – staff management (users:read / users:manage), limited
+ * to the current property's staff outside OWNER sessions.
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import type { Property, User } from '@prisma/client';
+import { AuthGuard } from '../../../libs/auth/auth.guard';
+import { PermissionsGuard, RequirePermission } from '../../../libs/auth/permissions.guard';
+import { CurrentUser } from '../../../libs/auth/decorators/current-user.decorator';
+import { CurrentProperty } from '../../../libs/auth/decorators/current-property.decorator';
+import { readImageUpload } from '../../../libs/storage/image-upload';
+import {
+  UsersService,
+  ListUsersQueryDto,
+  CreateUserDto,
+  UpdateUserDto,
+  ChangeRoleDto,
+  AVATAR_MAX_BYTES,
+} from './users.service';
+
+@Controller('admin/users')
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermission('users:manage')
+export class UsersController {
+  constructor(private readonly users: UsersService) {}
+
+  @Get()
+  @RequirePermission('users:read')
+  async list(
+    @Query() query: ListUsersQueryDto,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+  ) {
+    return this.users.list(query, actor, property);
+  }
+
+  @Get(':id')
+  @RequirePermission('users:read')
+  async get(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+  ) {
+    return this.users.get(id, actor, property);
+  }
+
+  @Post()
+  async create(
+    @Body() dto: CreateUserDto,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.users.create(dto, actor, property, req.ip);
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateUserDto,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.users.update(id, dto, actor, property, req.ip);
+  }
+
+  @Patch(':id/role')
+  async changeRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ChangeRoleDto,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.users.changeRole(id, dto.role, actor, property, req.ip);
+  }
+
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  async deactivate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.users.setActive(id, false, actor, property, req.ip);
+  }
+
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  async reactivate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.users.setActive(id, true, actor, property, req.ip);
+  }
+
+  /** multipart/form-data with a single JPEG, PNG or WebP file (max 2 MB). */
+  @Post(':id/avatar')
+  @HttpCode(HttpStatus.OK)
+  async uploadAvatar(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() actor: User,
+    @CurrentProperty() property: Property,
+    @Req() req: FastifyRequest,
+  ) {
+    const upload = await readImageUpload(req, AVATAR_MAX_BYTES);
+    return this.users.updateAvatar(id, upload, actor, property, req.ip);
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * BBH HMS – UsersService
+ * Staff management (users:read / users:manage permissions).
+ *
+ * Guardrails:
+ *   - A MANAGER can neither create, edit nor promote to OWNER.
+ *   - The last active OWNER can be neither deactivated nor demoted.
+ *   - Role changes apply to the current property and, like deactivation,
+ *     revoke the user's sessions immediately.
+ *   - Outside OWNER sessions, only staff of the current property
+ *     (PropertyService.staffScope) can be seen or managed.
+ *   - Accounts created on any property but the default become its members.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Prisma, Role } from '@prisma/client';
+import type { Property, User } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../../libs/prisma/prisma.service';
+import { AuditService } from '../../../libs/audit/audit.service';
+import { AuthService } from '../../../libs/auth/auth.service';
+import { PasswordService } from '../../../libs/auth/password.service';
+import { StorageService, BUCKET_PUBLIC } from '../../../libs/storage/storage.service';
+import type { ImageUpload } from '../../../libs/storage/image-upload';
+import { PropertyService } from '../../../libs/properties/property.service';
+
+// ─── DTOs ─────────────────────────────────────────────────────────────────────
+
+export class ListUsersQueryDto {
+  @IsOptional() @IsString() @MaxLength(100) search?: string;
+  @IsOptional() @IsEnum(Role) role?: Role;
+  @IsOptional()
+  // Implicit conversion has already turned "false" into true; read the raw query value
+  @Transform(({ obj }) => obj.isActive === true || obj.isActive === 'true')
+  @IsBoolean()
+  isActive?: boolean;
+  @IsOptional() @IsInt() @Min(0) skip?: number;
+  @IsOptional() @IsInt() @Min(1) @Max(100) take?: number;
+}
+
+export class CreateUserDto {
+  @IsEmail() @MaxLength(255) email!: string;
+  @IsString() @MinLength(1) @MaxLength(100) firstName!: string;
+  @IsString() @MinLength(1) @MaxLength(100) lastName!: string;
+  @IsEnum(Role) role!: Role;
+  /** invite: email a set-password link. temporary_password: return one to hand over. */
+  @IsIn(['invite', 'temporary_password']) onboarding!: 'invite' | 'temporary_password';
+}
+
+export class UpdateUserDto {
+  @IsOptional() @IsEmail() @MaxLength(255) email?: string;
+  @IsOptional() @IsString() @MinLength(1) @MaxLength(100) firstName?: string;
+  @IsOptional() @IsString() @MinLength(1) @MaxLength(100) lastName?: string;
+}
+
+export class ChangeRoleDto {
+  @IsEnum(Role) role!: Role;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Never return hashes, PINs or MFA secrets from the admin API. */
+export const STAFF_SELECT = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  email: true,
+  role: true,
+  first_name: true,
+  last_name: true,
+  avatar_url: true,
+  is_active: true,
+  mfa_enabled: true,
+  last_login_at: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditService,
+    private readonly authService: AuthService,
+    private readonly passwords: PasswordService,
+    private readonly storage: StorageService,
+    private readonly properties: PropertyService,
+  ) {}
+
+  async list(query: ListUsersQueryDto, actor: User, property: Property) {
+    const where: Prisma.UserWhereInput = {
+      AND: [this.properties.staffScope(actor, property)],
+      ...(query.role ? { role: query.role } : {}),
+      ...(query.isActive !== undefined ? { is_active: query.isActive } : {}),
+      ...(query.search
+        ? {
+            OR: [
+              { email: { contains: query.search, mode: 'insensitive' } },
+              { first_name: { contains: query.search, mode: 'insensitive' } },
+              { last_name: { contains: query.search, mode: 'insensitive' } },
+            ],
+          }
+        : {}),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        select: STAFF_SELECT,
+        orderBy: [{ last_name: 'asc' }, { first_name: 'asc' }],
+        skip: query.skip ?? 0,
+        take: query.take ?? 50,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  async get(id: string, actor: User, property: Property) {
+    const user = await this.prisma.user.findFirst({
+      where: { id, AND: [this.properties.staffScope(actor, property)] },
+      select: STAFF_SELECT,
+    });
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+
+  /**
+   * Create a staff account. With a temporary password, the password is
+   * returned once and must be handed over in person. Invitations are mailed
+   * after the account is saved; `inviteSent: false` reports a failed mail.
+   */
+  async create(dto: CreateUserDto, actor: User, property: Property, ipAddress?: string) {
+    this.assertMayAssignRole(actor, dto.role);
+
+    const email = dto.email.toLowerCase().trim();
+    await this.assertEmailFree(email);
+
+    // Invited users get an unusable random password until they follow the link
+    const temporaryPassword = randomBytes(12).toString('base64url');
+
+    const passwordHash = await this.authService.hashPassword(temporaryPassword);
+
+    // The account and its invitation link are saved together; the mail follows
+    const { user, inviteToken } = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email,
+          first_name: dto.firstName,
+          last_name: dto.lastName,
+          role: dto.role,
+          password_hash: passwordHash,
+          // OWNER is group-wide; users without memberships belong to the default property
+          ...(property.is_default || dto.role === Role.OWNER
+            ? {}
+            : { properties: { create: { property_id: property.id, role: dto.role } } }),
+        },
+      });
+      const token =
+        dto.onboarding === 'invite'
+          ? await this.passwords.createInviteToken(created.id, ipAddress, tx)
+          : undefined;
+      return { user: created, inviteToken: token };
+    });
+
+    await this.audit.log({
+      action: 'USER_CREATED',
+      resource: 'User',
+      resourceId: user.id,
+      newValue: { email, role: dto.role, onboarding: dto.onboarding },
+      performedById: actor.id,
+      ipAddress,
+    });
+
+    if (inviteToken) {
+      const inviteSent = await this.passwords.sendInvite(user, actor, inviteToken, ipAddress);
+      return { user: await this.get(user.id, actor, property), inviteSent };
+    }
+
+    return { user: await this.get(user.id, actor, property), temporaryPassword };
+  }
+
+  async update(
+    id: string,
+    dto: UpdateUserDto,
+    actor: User,
+    property: Property,
+    ipAddress?: string,
+  ) {
+    const target = await this.findOrThrow(id, actor, property);
+    this.assertMayManage(actor, target);
+
+    const email = dto.email?.toLowerCase().trim();
+    if (email && email !== target.email) await this.assertEmailFree(email);
+
+    const updated = await this.prisma.user.update({
+      where: { id },
+      data: {
+        ...(email ? { email } : {}),
+        ...(dto.firstName ? { first_name: dto.firstName } : {}),
+        ...(dto.lastName ? { last_name: dto.lastName } : {}),
+      },
+      select: STAFF_SELECT,
+    });
+
+    await this.audit.log({
+      action: 'USER_UPDATED',
+      resource: 'User',
+      resourceId: id,
+      oldValue: { email: target.email, first_name: target.first_name, last_name: target.last_name },
+      newValue: { email: updated.email, first_name: updated.first_name, last_name: updated.last_name },
+      performedById: actor.id,
+      ipAddress,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Changes the user's role on the current property: their membership role
+   * if they are a member, otherwise their own role, which only applies on
+   * the default property. OWNER is group-wide and always set on the user.
+   */
+  async changeRole(id: string, role: Role, actor: User, property: Property, ipAddress?: string) {
+    const target = await this.findOrThrow(id, actor, property);
+    this.assertMayManage(actor, target);
+    this.assertMayAssignRole(actor, role);
+
+    const groupWide = role === Role.OWNER || target.role === Role.OWNER;
+    const memberships = await this.prisma.propertyMember.findMany({
+      where: { user_id: id },
+      select: { property_id: true, role: true },
+    });
+    const membership = groupWide
+      ? undefined
+      : memberships.find((m) => m.property_id === property.id);
+
+    const current = membership?.role ?? target.role;
+    if (current === role) return this.get(id, actor, property);
+
+    if (membership) {
+      await this.prisma.propertyMember.update({
+        where: { user_id_property_id: { user_id: id, property_id: property.id } },
+        data: { role },
+      });
+    } else {
+      if (!groupWide && !(property.is_default && memberships.length === 0)) {
+        throw new BadRequestException(
+          `User has no role on ${property.name}; add them as a member of the property instead`,
+        );
+      }
+      if (target.role === Role.OWNER) await this.assertNotLastOwner(target);
+      await this.prisma.user.update({ where: { id }, data: { role } });
+    }
+
+    await this.audit.log({
+      action: 'USER_ROLE_CHANGED',
+      resource: 'User',
+      resourceId: id,
+      oldValue: { role: current },
+      newValue: { role, ...(membership ? { propertyId: property.id } : {}) },
+      performedById: actor.id,
+      ipAddress,
+    });
+
+    // Sessions carry the old role – force a fresh login
+    await this.authService.revokeAllSessionsForUser(id, actor.id, ipAddress);
+
+    return this.get(id, actor, property);
+  }
+
+  async setActive(
+    id: string,
+    isActive: boolean,
+    actor: User,
+    property: Property,
+    ipAddress?: string,
+  ) {
+    const target = await this.findOrThrow(id, actor, property);
+    this.assertMayManage(actor, target);
+    if (target.is_active === isActive) return this.get(id, actor, property);
+
+    if (!isActive) {
+      if (target.id === actor.id) {
+        throw new BadRequestException('You cannot deactivate your own account');
+      }
+      if (target.role === Role.OWNER) await this.assertNotLastOwner(target);
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id },
+      data: { is_active: isActive },
+      select: STAFF_SELECT,
+    });
+
+    await this.audit.log({
+      action: isActive ? 'USER_REACTIVATED' : 'USER_DEACTIVATED',
+      resource: 'User',
+      resourceId: id,
+      oldValue: { is_active: target.is_active },
+      newValue: { is_active: isActive },
+      performedById: actor.id,
+      ipAddress,
+    });
+
+    if (!isActive) {
+      await this.authService.revokeAllSessionsForUser(id, actor.id, ipAddress);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Store a new avatar in the public bucket and delete the previous one.
+   */
+  async updateAvatar(
+    id: string,
+    upload: ImageUpload,
+    actor: User,
+    property: Property,
+    ipAddress?: string,
+  ) {
+    const target = await this.findOrThrow(id, actor, property);
+    this.assertMayManage(actor, target);
+
+    const file = await this.storage.uploadFile(
+      upload.buffer,
+      upload.mimeType,
+      BUCKET_PUBLIC,
+      'avatars/',
+      upload.fileName,
+    );
+    const avatarPath = `${file.bucket}/${file.key}`;
+
+    const updated = await this.prisma.user.update({
+      where: { id },
+      data: { avatar_url: avatarPath },
+      select: STAFF_SELECT,
+    });
+
+    if (target.avatar_url) {
+      await this.storage.deleteByPath(target.avatar_url).catch((err: any) =>
+        this.logger.warn(`Could not delete old avatar ${target.avatar_url}: ${err.message}`),
+      );
+    }
+
+    await this.audit.log({
+      action: 'USER_AVATAR_UPDATED',
+      resource: 'User',
+      resourceId: id,
+      oldValue: { avatar_url: target.avatar_url },
+      newValue: { avatar_url: avatarPath },
+      performedById: actor.id,
+      ipAddress,
+    });
+
+    return updated;
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /** Users outside the actor's scope are reported as not found. */
+  private async findOrThrow(id: string, actor: User, property: Property): Promise<User> {
+    const user = await this.prisma.user.findFirst({
+      where: { id, AND: [this.properties.staffScope(actor, property)] },
+    });
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+
+  private assertMayManage(actor: User, target: User): void {
+    if (actor.role !== Role.OWNER && target.role === Role.OWNER) {
+      throw new ForbiddenException('Only an OWNER can manage OWNER accounts');
+    }
+  }
+
+  private assertMayAssignRole(actor: User, role: Role): void {
+    if (actor.role !== Role.OWNER && role === Role.OWNER) {
+      throw new ForbiddenException('Only an OWNER can assign the OWNER role');
+    }
+  }
+
+  private async assertNotLastOwner(target: User): Promise<void> {
+    const otherOwners = await this.prisma.user.count({
+      where: { role: Role.OWNER, is_active: true, id: { not: target.id } },
+    });
+    if (otherOwners === 0) {
+      throw new BadRequestException('The last active OWNER cannot be removed');
+    }
+  }
+
+  private async assertEmailFree(email: string): Promise<void> {
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) throw new ConflictException('A user with this email already exists');
+  }
+}